@@ -7,6 +7,12 @@
 
 import { EconomyTracker } from "../economy/tracker.js";
 import { DecisionLogger } from "../decisions/logger.js";
+import { formatJournalAudit } from "../economy/journal.js";
+import { formatLedgerQueryResult, parseLedgerArgs } from "../economy/ledger-query.js";
+import { PolicyEngine } from "../policy/engine.js";
+import { SpendMonitor } from "../economy/spend-monitor.js";
+import { formatBoardTask, isRateCardTier, type RateCardTier } from "../economy/task-board.js";
+import { getHeartbeatDaemon } from "../service.js";
 
 export function createMossCommand(): any {
   return {
@@ -33,10 +39,18 @@ export function createMossCommand(): any {
         return { text: economy.getRecentLedger(10) };
       }
 
-      // /moss ledger 20
+      // /moss ledger 20 | /moss ledger type=llm_inference days=7 by=model
       if (args.startsWith("ledger ")) {
-        const count = parseInt(args.split(" ")[1]) || 10;
-        return { text: economy.getRecentLedger(count) };
+        const rest = args.split(/\s+/).slice(1);
+        if (rest.length === 1 && /^\d+$/.test(rest[0])) {
+          return { text: economy.getRecentLedger(parseInt(rest[0]) || 10) };
+        }
+        try {
+          const query = parseLedgerArgs(rest);
+          return { text: formatLedgerQueryResult(await economy.queryLedger({ limit: 10, ...query }), economy.getTimeZone()) };
+        } catch (err) {
+          return { text: `❌ ${(err as Error).message}` };
+        }
       }
 
       // /moss reward <amount> [description]
@@ -49,7 +63,7 @@ export function createMossCommand(): any {
           return { text: "❌ 金额无效。用法: /moss reward 50000 完成了xx任务" };
         }
 
-        economy.recordIncome({
+        const tx = economy.recordIncome({
           type: "boss_task_reward",
           tokens: amount,
           description,
@@ -57,10 +71,293 @@ export function createMossCommand(): any {
         await economy.save();
 
         return {
-          text: `✅ 奖励已记录: +${amount.toLocaleString()} tokens — ${description}\n\n当前余额: ${economy.getState().balance.tokenCredits.toLocaleString()} tokens`,
+          text: `✅ 奖励已记录: +${amount.toLocaleString()} tokens — ${description} [${tx.id}]\n\n当前余额: ${economy.getState().balance.tokenCredits.toLocaleString()} tokens`,
         };
       }
 
+      // /moss adjust <+/-amount> <tokens|usd> <reason>
+      if (args.startsWith("adjust ")) {
+        const [, amountArg, unit, ...rest] = args.split(/\s+/);
+        const amount = Number(amountArg);
+        if (!Number.isFinite(amount) || amount === 0 || (unit !== "tokens" && unit !== "usd") || rest.length === 0) {
+          return { text: "❌ 用法: /moss adjust <+/-金额> <tokens|usd> <原因>\n例: /moss adjust -50000 tokens 奖励录错" };
+        }
+        try {
+          const tx = economy.adjustBalance(amount, unit, rest.join(" "));
+          await economy.save();
+          return {
+            text: `✅ 已调整: ${amount > 0 ? "+" : ""}${amount} ${unit} — ${tx.description} [${tx.id}]\n\n当前余额: ${economy.getState().balance.tokenCredits.toLocaleString()} tokens`,
+          };
+        } catch (err) {
+          return { text: `❌ ${(err as Error).message}` };
+        }
+      }
+
+      // /moss reverse <txId> [reason]
+      if (args.startsWith("reverse ")) {
+        const [, id, ...rest] = args.split(/\s+/);
+        try {
+          const tx = await economy.reverseTransaction(id, rest.join(" ") || "BOSS 冲正");
+          await economy.save();
+          return {
+            text: `✅ 已冲正 ${id} → ${tx.id}\n\n当前余额: ${economy.getState().balance.tokenCredits.toLocaleString()} tokens`,
+          };
+        } catch (err) {
+          return { text: `❌ ${(err as Error).message}` };
+        }
+      }
+
+      // /moss audit
+      if (args === "audit") {
+        return { text: formatJournalAudit(await economy.auditJournal()) };
+      }
+
+      // /moss audit rebuild
+      if (args === "audit rebuild") {
+        const audit = await economy.rebuildFromJournal();
+        await economy.save();
+        return { text: `🔧 已按流水重建快照\n\n${formatJournalAudit(audit)}` };
+      }
+
+      // /moss tiers
+      if (args === "tiers") {
+        return { text: economy.getTierReport() };
+      }
+
+      // /moss tiers set <tier> <tokens> | /moss tiers hysteresis <pct>
+      if (args.startsWith("tiers ")) {
+        const [, sub, a, b] = args.split(/\s+/);
+        try {
+          if (sub === "set" && ["rich", "normal", "tight", "danger"].includes(a)) {
+            economy.setSurvivalThresholds({ [a]: Number(b) });
+          } else if (sub === "hysteresis") {
+            economy.setTierHysteresis(Number(a));
+          } else {
+            return { text: "❌ 用法: /moss tiers set <rich|normal|tight|danger> <tokens> 或 /moss tiers hysteresis <百分比>" };
+          }
+          await economy.save();
+          return { text: `✅ 已更新\n\n${economy.getTierReport()}` };
+        } catch (err) {
+          return { text: `❌ ${(err as Error).message}` };
+        }
+      }
+
+      // /moss policy
+      if (args === "policy") {
+        const engine = PolicyEngine.getInstance();
+        if (!engine) {
+          return { text: "❌ Policy Engine 未初始化" };
+        }
+        return { text: engine.getReport() };
+      }
+
+      // /moss budgets
+      if (args === "budgets") {
+        return { text: economy.getBudgetReport() };
+      }
+
+      // /moss export [csv|json] [daily] [from=…] [to=…] [days=N]
+      if (args === "export" || args.startsWith("export ")) {
+        const opts: Parameters<typeof economy.exportLedger>[0] = {};
+        try {
+          for (const arg of args.split(/\s+/).slice(1)) {
+            if (arg === "csv" || arg === "json") opts.format = arg;
+            else if (arg === "daily") opts.kind = "daily";
+            else {
+              const { from, to, days } = parseLedgerArgs([arg]);
+              Object.assign(opts, from && { from }, to && { to }, days && { days });
+              if (!from && !to && !days) throw new Error(`无法识别的参数: ${arg}`);
+            }
+          }
+          const { path, entries } = await economy.exportLedger(opts);
+          return { text: `✅ 已导出 ${entries} 条流水${opts.kind === "daily" ? "（按天汇总）" : ""}\n📄 ${path}` };
+        } catch (err) {
+          return { text: `❌ ${(err as Error).message}` };
+        }
+      }
+
+      // /moss import <file>
+      if (args.startsWith("import ")) {
+        try {
+          const result = await economy.importAdjustments(args.slice(7).trim());
+          await economy.save();
+          return {
+            text: [
+              `✅ 已导入 ${result.rows} 笔手工调整（批次 ${result.importId}）`,
+              `净额: ${result.tokens.toLocaleString()} tokens / $${result.usd.toFixed(4)}`,
+              `当前余额: ${economy.getState().balance.tokenCredits.toLocaleString()} tokens`,
+            ].join("\n"),
+          };
+        } catch (err) {
+          return { text: `❌ 导入失败，未入账任何记录: ${(err as Error).message}` };
+        }
+      }
+
+      // /moss report [day|week|month]
+      if (args === "report" || args.startsWith("report ")) {
+        const period = args.split(/\s+/)[1] ?? "day";
+        if (period !== "day" && period !== "week" && period !== "month") {
+          return { text: "❌ 用法: /moss report day|week|month" };
+        }
+        return { text: economy.getPeriodReport(period) };
+      }
+
+      // /moss usage [today|total]
+      if (args === "usage" || args.startsWith("usage ")) {
+        const scope = args.split(/\s+/)[1] ?? "today";
+        if (scope !== "today" && scope !== "total") {
+          return { text: "❌ 用法: /moss usage [today|total]" };
+        }
+        return { text: economy.getUsageReport(scope === "total" ? "lifetime" : "today") };
+      }
+
+      // /moss breaker [reset]
+      if (args === "breaker" || args === "breaker reset") {
+        const monitor = SpendMonitor.getInstance();
+        if (!monitor) return { text: "❌ 消耗监控未初始化" };
+        if (args === "breaker reset") {
+          const wasTripped = await monitor.reset();
+          return { text: wasTripped ? "✅ 熔断已解除，非 BOSS 会话恢复运行" : "熔断器未触发，无需解除" };
+        }
+        return { text: monitor.getReport() };
+      }
+
+      // /moss tasks health [resume <task>]（别名 /moss heartbeat）
+      // 心跳 task 健康视图挂在 `tasks health` 下：`/moss tasks` 本身是 BOSS 任务板
+      const healthArgs = /^(tasks health|heartbeat)(\s|$)/.exec(args);
+      if (healthArgs) {
+        const daemon = getHeartbeatDaemon();
+        if (!daemon) return { text: "❌ 心跳守护进程未启动" };
+        const [sub, name] = args.slice(healthArgs[1].length).trim().split(/\s+/).filter(Boolean);
+        if (sub === "resume" && name) {
+          return {
+            text: daemon.resumeTask(name)
+              ? `✅ "${name}" 已解除熔断，下个到期 tick 重新运行`
+              : `"${name}" 未在熔断中（或不存在）`,
+          };
+        }
+        if (sub) return { text: `❌ 用法: /moss ${healthArgs[1]} [resume <task>]` };
+        return { text: daemon.getTaskReport() };
+      }
+
+      // /moss reconcile
+      if (args === "reconcile") {
+        await economy.reconcileBalances(true);
+        await economy.save();
+        return { text: economy.getReconcileReport() };
+      }
+
+      // /moss dividends
+      if (args === "dividends") {
+        return { text: economy.getShareholderStatement() };
+      }
+
+      // /moss payout <tokens | $usd> [备注]
+      if (args.startsWith("payout ")) {
+        const [, amount, ...rest] = args.split(/\s+/);
+        const isUsd = amount.startsWith("$");
+        const value = parseFloat(isUsd ? amount.slice(1) : amount);
+        if (!Number.isFinite(value) || value <= 0) {
+          return { text: "❌ 用法: /moss payout <tokens | $usd> [备注]" };
+        }
+        try {
+          economy.recordDividendPayout({
+            tokens: isUsd ? 0 : value,
+            usd: isUsd ? value : 0,
+            note: rest.join(" ") || undefined,
+          });
+          await economy.save();
+          return { text: `✅ 已记录分红提取\n\n${economy.getShareholderStatement()}` };
+        } catch (err) {
+          return { text: `❌ ${(err as Error).message}` };
+        }
+      }
+
+      // /moss payments
+      if (args === "payments") {
+        return { text: economy.getPaymentsReport() };
+      }
+
+      // /moss approve <id> | /moss deny <id>
+      if (args.startsWith("approve ") || args.startsWith("deny ")) {
+        const [action, id] = args.split(/\s+/);
+        try {
+          const request =
+            action === "approve" ? economy.approvePayment(id) : economy.denyPayment(id);
+          await economy.save();
+          return {
+            text: `${action === "approve" ? "✅ 已批准" : "❌ 已拒绝"}: ${request.id} $${request.amountUsd} → ${request.payee}`,
+          };
+        } catch (err) {
+          return { text: `❌ ${(err as Error).message}` };
+        }
+      }
+
+      // /moss tasks [post|approve|reject|cancel …]
+      if (args === "tasks" || args.startsWith("tasks ")) {
+        const [, action, id, ...rest] = args.split(/\s+/);
+        try {
+          if (!action) {
+            return { text: economy.getTaskBoardReport() };
+          }
+          if (action === "post") {
+            // /moss tasks post <档位|tokens> <标题>
+            const title = rest.join(" ");
+            const bounty = /^\d+$/.test(id ?? "") ? parseInt(id) : undefined;
+            if ((!bounty && !isRateCardTier(id ?? "")) || !title) {
+              return {
+                text: `❌ 用法: /moss tasks post <${Object.keys(economy.getRateCard()).join("|")}|tokens> <标题>`,
+              };
+            }
+            const task = economy.postTask({ title, bounty, tier: bounty ? undefined : (id as RateCardTier) });
+            await economy.save();
+            return { text: `已发布: ${formatBoardTask(task)}` };
+          }
+          if (action === "approve" && id) {
+            const { task, tx } = economy.approveTask(id);
+            await economy.save();
+            return {
+              text: `✅ 已验收: ${task.title}\n+${task.bounty.toLocaleString()} tokens [${tx.id}]\n\n当前余额: ${economy.getState().balance.tokenCredits.toLocaleString()} tokens`,
+            };
+          }
+          if (action === "reject" && id) {
+            const task = economy.rejectTask(id, rest.join(" ") || undefined);
+            await economy.save();
+            return { text: `已退回返工: ${formatBoardTask(task)}` };
+          }
+          if (action === "cancel" && id) {
+            const task = economy.cancelTask(id, rest.join(" ") || undefined);
+            await economy.save();
+            return { text: `已取消: ${formatBoardTask(task)}` };
+          }
+          return { text: "❌ 用法: /moss tasks [post <档位|tokens> <标题> | approve <id> | reject <id> [原因] | cancel <id>]" };
+        } catch (err) {
+          return { text: `❌ ${(err as Error).message}` };
+        }
+      }
+
+      // /moss claims
+      if (args === "claims") {
+        return { text: economy.getIncomeClaimsReport() };
+      }
+
+      // /moss confirm <id> | /moss reject <id> [原因]
+      if (args.startsWith("confirm ") || args.startsWith("reject ")) {
+        const [action, id, ...rest] = args.split(/\s+/);
+        try {
+          const claim =
+            action === "confirm"
+              ? economy.confirmIncomeClaim(id)
+              : economy.rejectIncomeClaim(id, rest.join(" ") || undefined);
+          await economy.save();
+          return {
+            text: `${action === "confirm" ? "✅ 已确认入账" : "❌ 已驳回"}: ${claim.id} — ${claim.description}\n\n当前余额: ${economy.getState().balance.tokenCredits.toLocaleString()} tokens`,
+          };
+        } catch (err) {
+          return { text: `❌ ${(err as Error).message}` };
+        }
+      }
+
       // /moss decisions
       if (args === "decisions" || args.startsWith("decisions")) {
         const decisionLogger = DecisionLogger.getInstance();
@@ -79,12 +376,39 @@ export function createMossCommand(): any {
           "",
           "命令:",
           "  /moss status — 经济状态总览",
+          "  /moss report [day|week|month] — 本期 vs 上期（收支、净额、LLM 调用、等级停留）",
+          "  /moss usage [today|total] — LLM 用量按模型/provider 拆分（缓存命中率、每次平均 token、最耗会话）",
           "  /moss ledger [数量] — 流水记录（默认10条）",
+          "  /moss ledger [数量] key=value... — 流水查询（type/dir/unit/model/provider/session/from/to/days，by=day|model|provider|type|session 汇总）",
           "  /moss decisions [数量] — 决策记录（默认5条）",
           "  /moss reward <tokens> [描述] — 记录任务奖励",
+          "  /moss adjust <+/-金额> <tokens|usd> <原因> — 手工调整余额",
+          "  /moss reverse <流水ID> [原因] — 冲正一笔流水（生成关联的反向记录，原记录保留）",
+          "  /moss tiers — 生存等级阈值与变迁记录",
+          "  /moss tiers set <等级> <tokens> / hysteresis <百分比> — 调整阈值/滞回",
+          "  /moss policy — 各生存等级的行为策略（唤醒/会话/工具/token 上限）",
+          "  /moss budgets — 今日各预算 envelope 消耗",
+          "  /moss breaker [reset] — 消耗异常监控与熔断状态（reset 确认并解除熔断）",
+          "  /moss tasks health — 心跳 task 运行统计（失败、耗时、最近唤醒、熔断状态；别名 /moss heartbeat）",
+          "  /moss tasks health resume <task> — 解除 task 熔断",
+          "  /moss export [csv|json] [daily] [from=… to=… days=N] — 导出流水/按天汇总到 data/exports/",
+          "  /moss import <文件> — 批量导入手工调整（CSV/JSON，只能是 data/imports/ 下的文件）",
+          "  /moss reconcile — 立即与外部余额 provider 对账",
+          "  /moss audit [rebuild] — 流水重放对账（rebuild 以流水为准修正快照）",
+          "  /moss tasks — BOSS 任务板（进行中、待审批、工资标准）",
+          "  /moss tasks post <simple|medium|complex|research|maintenance|tokens> <标题> — 发布任务",
+          "  /moss tasks approve <id> / reject <id> [原因] / cancel <id> — 验收（自动发放悬赏）/退回/取消",
+          "  /moss claims — Agent 申报的待确认收入",
+          "  /moss confirm <id> / reject <id> [原因] — 确认/驳回收入申报",
+          "  /moss dividends — BOSS 股东账单（应付/已付分红、分成比例）",
+          "  /moss payout <tokens | $usd> [备注] — 记录 BOSS 提取分红",
+          "  /moss payments — x402 支付授权（待批准/最近处理）",
+          "  /moss approve <id> / deny <id> — 批准/拒绝挂起的支付",
           "",
           "示例:",
           "  /moss reward 50000 完成 ClawWork 深度分析",
+          "  /moss tasks post research 竞品 x402 服务调研",
+          "  /moss ledger type=llm_inference days=7 by=model",
         ].join("\n"),
       };
     },
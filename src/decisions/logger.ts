@@ -9,12 +9,13 @@
  * - 采取的行动
  * - 结果
  *
- * 存储在 data/decisions/ 目录，按天分文件。
+ * 存储在 data/decisions/ 目录，按记账时区的天分文件。
  * HeartbeatDaemon 的 packContext() 可以读取最近决策作为上下文。
  */
 
 import { readFile, writeFile, mkdir, readdir } from "fs/promises";
 import { join } from "path";
+import { DEFAULT_TIME_ZONE, localDate, localTime } from "../economy/timezone.js";
 
 // ─── Types ──────────────────────────────────────────────────
 
@@ -42,7 +43,7 @@ export class DecisionLogger {
   private static instance: DecisionLogger | null = null;
   private dataDir: string;
 
-  constructor(baseDir: string, private logger: any) {
+  constructor(baseDir: string, private logger: any, private timeZone = DEFAULT_TIME_ZONE) {
     this.dataDir = join(baseDir, "decisions");
   }
 
@@ -69,7 +70,7 @@ export class DecisionLogger {
     };
 
     // Append to today's file
-    const today = now.toISOString().slice(0, 10);
+    const today = localDate(now.getTime(), this.timeZone);
     const filePath = join(this.dataDir, `${today}.jsonl`);
 
     try {
@@ -137,7 +138,7 @@ export class DecisionLogger {
     if (decisions.length === 0) return "📝 暂无决策记录";
 
     const lines = decisions.map(d => {
-      const time = d.timestamp.slice(5, 16);
+      const time = localTime(d.timestamp, this.timeZone);
       const actions = d.actions.map(a => {
         const icon = a.success ? "✅" : "❌";
         return `${icon} ${a.description}`;
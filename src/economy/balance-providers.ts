@@ -0,0 +1,139 @@
+/**
+ * Balance Providers — 外部真实余额对账
+ *
+ * 内部账本只是记账；真实余额在外面（token 配额 API、链上 USDC 钱包）。
+ * refresh() 时轮询已注册的 provider，把外部真值和内部余额比对：
+ * - 有偏差 → 记一笔 manual_adjustment（meta.kind = "reconciliation"），内部余额对齐外部
+ * - 偏差超过容差 → 告警（economy-check 紧急唤醒并通知 BOSS）
+ *
+ * 每个账户（tokens / usdc）以第一个返回读数的 provider 为准。
+ *
+ * 单位：内部 tokenCredits 是加权记账 token（见 pricing.ts），token 配额 API 报的是原始 token，
+ * 两者不能直接比。tokens 账户的 provider 必须声明 unit：
+ * - accounting：已是加权记账 token，直接比对
+ * - usd：美元额度，按 baseUsdPerMTok 换算成记账 token
+ * - raw / 未声明：无法换算（不知道模型和 input/output 构成），拒绝对账
+ *
+ * Provider 可由外部插件注册：
+ *   api.get('moss.economy.registerBalanceProvider')(provider)
+ * 也可通过配置 balanceFile 启用内置的文件 provider（本地测试整个流程）。
+ */
+
+import { readFile } from "fs/promises";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type BalanceAccount = "tokens" | "usdc";
+export type BalanceUnit = "accounting" | "usd" | "raw";
+
+export interface BalanceProvider {
+  /** Provider name (for logging, dedup and ledger provenance) */
+  name: string;
+  /** Which internal balance this provider reports */
+  account: BalanceAccount;
+  /** Unit of read(). Required for the tokens account; usdc is always "usd" */
+  unit?: BalanceUnit;
+  /** Minimum time between polls (default: every refresh) */
+  pollIntervalMs?: number;
+  /**
+   * Current external balance, or null when unavailable.
+   * Throwing is treated as unavailable.
+   */
+  read(): Promise<number | null>;
+}
+
+export interface DriftTolerance {
+  tokens: number;
+  usd: number;
+}
+
+export interface ReconcileResult {
+  provider: string;
+  account: BalanceAccount;
+  at: string;
+  external: number;
+  internal: number;
+  /** external - internal */
+  drift: number;
+  /** Ledger entry id of the adjustment, if one was recorded */
+  adjustmentId?: string;
+  /** |drift| exceeded the tolerance */
+  alert: boolean;
+}
+
+export const DEFAULT_DRIFT_TOLERANCE: DriftTolerance = { tokens: 1_000, usd: 0.01 };
+
+// ─── Provider Registry ──────────────────────────────────────
+
+/** Module-level so providers survive service restarts */
+const providers: BalanceProvider[] = [];
+
+export function registerBalanceProvider(provider: BalanceProvider): void {
+  const existing = providers.findIndex((p) => p.name === provider.name);
+  if (existing >= 0) {
+    providers[existing] = provider;
+  } else {
+    providers.push(provider);
+  }
+}
+
+export function unregisterBalanceProvider(name: string): boolean {
+  const idx = providers.findIndex((p) => p.name === name);
+  if (idx < 0) return false;
+  providers.splice(idx, 1);
+  return true;
+}
+
+export function listBalanceProviders(): BalanceProvider[] {
+  return [...providers];
+}
+
+/**
+ * Why a provider's readings can't be compared with the ledger, or null if they can.
+ */
+export function providerUnitError(provider: BalanceProvider): string | null {
+  if (provider.account === "usdc") {
+    return !provider.unit || provider.unit === "usd" ? null : `usdc 账户只接受 usd，${provider.name} 声明为 ${provider.unit}`;
+  }
+  if (provider.unit === "accounting" || provider.unit === "usd") return null;
+  return provider.unit === "raw"
+    ? `${provider.name} 报的是原始 token，无法换算成加权记账 token（请改报 accounting 或 usd）`
+    : `${provider.name} 未声明 unit（tokens 账户需为 accounting 或 usd）`;
+}
+
+// ─── File Provider ──────────────────────────────────────────
+
+/**
+ * Reads `{ "tokens": 123456, "usdc": 1.23 }` from a JSON file
+ * (tokens in accounting units). A missing file or missing key means "unavailable".
+ */
+export function createFileBalanceProvider(path: string, account: BalanceAccount): BalanceProvider {
+  return {
+    name: `file:${account}`,
+    account,
+    unit: account === "tokens" ? "accounting" : "usd",
+    async read() {
+      let raw: string;
+      try {
+        raw = await readFile(path, "utf-8");
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+      }
+      const value = (JSON.parse(raw) as Record<string, unknown>)[account];
+      return typeof value === "number" && Number.isFinite(value) ? value : null;
+    },
+  };
+}
+
+// ─── Formatting ─────────────────────────────────────────────
+
+function formatAmount(account: BalanceAccount, n: number): string {
+  return account === "usdc" ? `$${n.toFixed(4)}` : n.toLocaleString();
+}
+
+export function formatReconcileResult(r: ReconcileResult): string {
+  const icon = r.alert ? "🚨" : r.adjustmentId ? "🔧" : "✅";
+  const drift = r.drift === 0 ? "一致" : `偏差 ${r.drift > 0 ? "+" : "-"}${formatAmount(r.account, Math.abs(r.drift))}`;
+  return `${icon} ${r.account} [${r.provider}] 外部 ${formatAmount(r.account, r.external)} / 账本 ${formatAmount(r.account, r.internal)} — ${drift}`;
+}
@@ -0,0 +1,73 @@
+/**
+ * Budget Envelopes — 按会话/用途划分的每日预算
+ *
+ * 对标 Conway: agent/spend-tracker.ts 的 per-purpose budget
+ * 每个 envelope 是一条具名分配：匹配一组 session key，给一个每日 token 上限。
+ * LLM 消耗按 sessionId 归入第一个匹配的 envelope（都不匹配 → "other"）。
+ * envelope 用完后，守护进程不再启动从它取钱的会话——
+ * 一次失控的思考会话烧不光整个余额。
+ *
+ * 模式语法同策略引擎：`*` 通配，`!` 排除，`@boss` 匹配 BOSS 会话。
+ */
+
+import { matchesPatterns } from "../policy/patterns.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface BudgetEnvelope {
+  name: string;
+  /** Session key patterns drawing from this envelope */
+  sessions: string[];
+  /** Daily cap in weighted tokens (0 = unlimited, tracked only) */
+  dailyTokens: number;
+}
+
+export interface EnvelopeStatus {
+  name: string;
+  dailyTokens: number;
+  spent: number;
+  /** null when unlimited */
+  remaining: number | null;
+  exhausted: boolean;
+}
+
+/** Catch-all envelope for spend that matches nothing */
+export const OTHER_ENVELOPE = "other";
+
+export const DEFAULT_BUDGET_ENVELOPES: BudgetEnvelope[] = [
+  { name: "thinking", sessions: ["*moss-think-*"], dailyTokens: 200_000 },
+  { name: "urgent", sessions: ["*moss-urgent-*"], dailyTokens: 100_000 },
+  { name: "boss-chat", sessions: ["@boss"], dailyTokens: 0 },
+];
+
+// ─── Helpers ────────────────────────────────────────────────
+
+/**
+ * Resolve which envelope a session draws from.
+ */
+export function resolveEnvelope(
+  envelopes: BudgetEnvelope[],
+  sessionKey: string | undefined,
+  bossChatId?: string,
+): string {
+  if (!sessionKey) return OTHER_ENVELOPE;
+  const match = envelopes.find((e) => matchesPatterns(sessionKey, e.sessions, bossChatId));
+  return match?.name ?? OTHER_ENVELOPE;
+}
+
+export function envelopeStatus(envelope: BudgetEnvelope, spent: number): EnvelopeStatus {
+  const unlimited = envelope.dailyTokens <= 0;
+  return {
+    name: envelope.name,
+    dailyTokens: envelope.dailyTokens,
+    spent,
+    remaining: unlimited ? null : Math.max(0, envelope.dailyTokens - spent),
+    exhausted: !unlimited && spent >= envelope.dailyTokens,
+  };
+}
+
+export function formatEnvelopeStatus(s: EnvelopeStatus): string {
+  const icon = s.exhausted ? "🔴" : s.remaining !== null && s.remaining < s.dailyTokens * 0.2 ? "🟠" : "🟢";
+  const cap = s.dailyTokens > 0 ? ` / ${s.dailyTokens.toLocaleString()}` : " (不限)";
+  return `${icon} ${s.name}: ${s.spent.toLocaleString()}${cap}`;
+}
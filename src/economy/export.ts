@@ -0,0 +1,221 @@
+/**
+ * Ledger Export / Import — 对账用的 CSV / JSON 导出与批量补录
+ *
+ * 导出：流水明细或按天汇总，CSV（表格对账）或 JSON，写到 data/exports/
+ * 导入：批量手工调整（如补录 BOSS 奖励），整批校验通过才入账，
+ *       每行记为 manual_adjustment，meta.provenance 记录来源文件、行号和导入批次。
+ *       同一文件内容（按 sha256）不能重复导入。
+ */
+
+import { createHash } from "crypto";
+import type { LedgerEntry } from "./tracker.js";
+import { aggregateLedger } from "./ledger-query.js";
+import { DEFAULT_TIME_ZONE } from "./timezone.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type ExportFormat = "csv" | "json";
+export type ExportKind = "entries" | "daily";
+
+export interface ImportRow {
+  /** 1-based row number in the source (for error messages and provenance) */
+  row: number;
+  direction: "income" | "expense";
+  tokens: number;
+  usd: number;
+  description: string;
+  /** When the adjustment actually happened (back-fill), optional */
+  occurredAt?: string;
+  /** External reference, e.g. a task id */
+  ref?: string;
+}
+
+export interface ImportBatch {
+  /** sha256 of the source content — re-importing the same file is refused */
+  importId: string;
+  source: string;
+  rows: ImportRow[];
+}
+
+// ─── CSV ────────────────────────────────────────────────────
+
+function csvCell(value: unknown): string {
+  const s = value === undefined || value === null ? "" : String(value);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map((r) => r.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Minimal RFC 4180 parser (quoted cells, escaped quotes, CRLF).
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      if (row.some((v) => v.trim() !== "")) rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  row.push(cell);
+  if (row.some((v) => v.trim() !== "")) rows.push(row);
+  return rows;
+}
+
+// ─── Export ─────────────────────────────────────────────────
+
+const ENTRY_COLUMNS = [
+  "id",
+  "timestamp",
+  "type",
+  "direction",
+  "tokens",
+  "usd",
+  "description",
+  "model",
+  "provider",
+  "sessionId",
+  "costUsd",
+];
+
+const DAILY_COLUMNS = ["day", "count", "tokensIn", "tokensOut", "usdIn", "usdOut", "llmCostUsd"];
+
+export function exportLedger(
+  entries: LedgerEntry[],
+  kind: ExportKind,
+  format: ExportFormat,
+  timeZone = DEFAULT_TIME_ZONE,
+): string {
+  if (kind === "daily") {
+    const days = aggregateLedger(entries, "day", timeZone);
+    if (format === "json") return JSON.stringify(days, null, 2);
+    return toCsv(
+      DAILY_COLUMNS,
+      days.map((d) => [d.key, d.count, d.tokensIn, d.tokensOut, d.usdIn, d.usdOut, d.llmCostUsd]),
+    );
+  }
+
+  if (format === "json") return JSON.stringify(entries, null, 2);
+  return toCsv(
+    ENTRY_COLUMNS,
+    entries.map((e) => [
+      e.id,
+      e.timestamp,
+      e.type,
+      e.direction,
+      e.tokens,
+      e.usd,
+      e.description,
+      e.meta?.model,
+      e.meta?.provider,
+      e.meta?.sessionId,
+      e.meta?.costUsd,
+    ]),
+  );
+}
+
+// ─── Import ─────────────────────────────────────────────────
+
+/** Accepted columns / JSON keys; direction + description + tokens or usd are required */
+export const IMPORT_COLUMNS = ["direction", "tokens", "usd", "description", "occurredAt", "ref"];
+
+function validateRow(raw: unknown, row: number): ImportRow {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`第 ${row} 行: 必须是对象`);
+  }
+  return validateFields(raw as Record<string, unknown>, row);
+}
+
+function validateFields(raw: Record<string, unknown>, row: number): ImportRow {
+  const direction = String(raw.direction ?? "").trim();
+  if (direction !== "income" && direction !== "expense") {
+    throw new Error(`第 ${row} 行: direction 必须是 income / expense`);
+  }
+
+  const num = (v: unknown, field: string) => {
+    if (v === undefined || v === null || String(v).trim() === "") return 0;
+    const n = Number(v);
+    if (!Number.isFinite(n) || n < 0) throw new Error(`第 ${row} 行: ${field} 无效: ${v}`);
+    return n;
+  };
+  const tokens = num(raw.tokens, "tokens");
+  const usd = num(raw.usd, "usd");
+  if (tokens + usd <= 0) throw new Error(`第 ${row} 行: tokens 和 usd 至少一个大于 0`);
+  if (!Number.isInteger(tokens)) throw new Error(`第 ${row} 行: tokens 必须是整数`);
+
+  const description = String(raw.description ?? "").trim();
+  if (!description) throw new Error(`第 ${row} 行: 缺少 description`);
+
+  const occurredAt = String(raw.occurredAt ?? "").trim() || undefined;
+  if (occurredAt && !Number.isFinite(Date.parse(occurredAt))) {
+    throw new Error(`第 ${row} 行: occurredAt 不是有效日期: ${occurredAt}`);
+  }
+
+  return {
+    row,
+    direction,
+    tokens,
+    usd,
+    description,
+    occurredAt,
+    ref: String(raw.ref ?? "").trim() || undefined,
+  };
+}
+
+/**
+ * Parse and validate an import file (CSV with a header row, or a JSON array).
+ * Throws on the first invalid row — nothing is imported from a bad file.
+ */
+export function parseImport(content: string, source: string): ImportBatch {
+  const importId = createHash("sha256").update(content).digest("hex").slice(0, 16);
+  const trimmed = content.trim();
+  let records: unknown[];
+  let firstRow = 1;
+
+  if (trimmed.startsWith("[")) {
+    const parsed = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) throw new Error("JSON 导入文件必须是数组");
+    records = parsed;
+  } else {
+    const [header, ...rows] = parseCsv(trimmed);
+    if (!header) throw new Error("导入文件为空");
+    const columns = header.map((h) => h.trim());
+    const unknown = columns.filter((c) => !IMPORT_COLUMNS.includes(c));
+    if (unknown.length > 0) throw new Error(`未知列: ${unknown.join(", ")}（可用: ${IMPORT_COLUMNS.join(", ")}）`);
+    records = rows.map((r) => Object.fromEntries(columns.map((c, i) => [c, r[i]])));
+    firstRow = 2;
+  }
+
+  if (records.length === 0) throw new Error("导入文件没有数据行");
+  return {
+    importId,
+    source,
+    rows: records.map((r, i) => validateRow(r, i + firstRow)),
+  };
+}
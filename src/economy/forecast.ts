@@ -0,0 +1,163 @@
+/**
+ * Runway Forecast — 烧钱速度与跑道预测
+ *
+ * 对标 Conway: survival/monitor.ts 的 time-to-death 估算
+ * - 按 5 分钟分桶记录 token 收支（保留 7 天，启动时从流水回填）
+ * - 计算 1h / 24h / 7d 滑动窗口的净消耗速度
+ * - 预测到达每个生存等级阈值的时间（ETA）和总跑道（到 hibernate）
+ *
+ * 预测速度取 24h 与 7d 中较大者：反映持续消耗，不被单次尖峰带偏。
+ */
+
+import { SURVIVAL_TIER_ORDER, type SurvivalTier } from "./tracker.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export const BURN_WINDOWS = {
+  "1h": 3_600_000,
+  "24h": 86_400_000,
+  "7d": 604_800_000,
+} as const;
+
+export type BurnWindow = keyof typeof BURN_WINDOWS;
+
+export interface BurnRate {
+  spentPerHour: number;
+  earnedPerHour: number;
+  /** spent - earned; positive = draining */
+  netPerHour: number;
+}
+
+export interface TierCrossing {
+  /** Tier entered when the balance drops below `threshold` */
+  tier: SurvivalTier;
+  threshold: number;
+  etaHours: number;
+}
+
+export interface RunwayForecast {
+  rates: Record<BurnWindow, BurnRate>;
+  /** Net rate used for projection */
+  projectionPerHour: number;
+  /** Hours until hibernate; null when not draining */
+  runwayHours: number | null;
+  /** Next tier drop; null when not draining or already hibernating */
+  next: TierCrossing | null;
+  crossings: TierCrossing[];
+}
+
+// ─── Burn Rate Tracker ──────────────────────────────────────
+
+const BUCKET_MS = 5 * 60_000;
+const RETENTION_MS = BURN_WINDOWS["7d"];
+const MIN_COVERAGE_MS = BURN_WINDOWS["1h"];
+
+export class BurnRateTracker {
+  private buckets = new Map<number, { spent: number; earned: number }>();
+  /** Start of observed history (rates are averaged over at most this span) */
+  private historyStart: number;
+
+  constructor(historyStart = Date.now()) {
+    this.historyStart = historyStart;
+  }
+
+  setHistoryStart(ts: number): void {
+    this.historyStart = Math.min(this.historyStart, ts);
+  }
+
+  record(timestamp: string, direction: "income" | "expense", tokens: number): void {
+    const t = Date.parse(timestamp);
+    if (!Number.isFinite(t) || tokens === 0) return;
+    if (t < Date.now() - RETENTION_MS) return;
+
+    const key = Math.floor(t / BUCKET_MS) * BUCKET_MS;
+    const bucket = this.buckets.get(key) ?? { spent: 0, earned: 0 };
+    if (direction === "expense") bucket.spent += tokens;
+    else bucket.earned += tokens;
+    this.buckets.set(key, bucket);
+    this.setHistoryStart(t);
+    this.prune();
+  }
+
+  rate(windowMs: number, now = Date.now()): BurnRate {
+    const from = now - windowMs;
+    let spent = 0;
+    let earned = 0;
+    for (const [key, bucket] of this.buckets) {
+      if (key + BUCKET_MS <= from) continue;
+      spent += bucket.spent;
+      earned += bucket.earned;
+    }
+
+    // Young history: average over what we have, but never less than 1h
+    const covered = Math.max(MIN_COVERAGE_MS, Math.min(windowMs, now - this.historyStart));
+    const hours = covered / 3_600_000;
+    return {
+      spentPerHour: spent / hours,
+      earnedPerHour: earned / hours,
+      netPerHour: (spent - earned) / hours,
+    };
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - RETENTION_MS - BUCKET_MS;
+    for (const key of this.buckets.keys()) {
+      if (key < cutoff) this.buckets.delete(key);
+    }
+  }
+}
+
+// ─── Forecast ───────────────────────────────────────────────
+
+export function forecastRunway(
+  balance: number,
+  tier: SurvivalTier,
+  thresholds: Record<SurvivalTier, number>,
+  burn: BurnRateTracker,
+): RunwayForecast {
+  const rates = {} as Record<BurnWindow, BurnRate>;
+  for (const [name, ms] of Object.entries(BURN_WINDOWS)) {
+    rates[name as BurnWindow] = burn.rate(ms);
+  }
+
+  const projectionPerHour = Math.max(rates["24h"].netPerHour, rates["7d"].netPerHour);
+  const crossings: TierCrossing[] = [];
+
+  if (projectionPerHour > 0) {
+    // Dropping into order[i + 1] happens when balance < thresholds[order[i]]
+    const current = SURVIVAL_TIER_ORDER.indexOf(tier);
+    for (let i = Math.max(current, 0); i < SURVIVAL_TIER_ORDER.length - 1; i++) {
+      const threshold = thresholds[SURVIVAL_TIER_ORDER[i]];
+      crossings.push({
+        tier: SURVIVAL_TIER_ORDER[i + 1],
+        threshold,
+        etaHours: Math.max(0, (balance - threshold) / projectionPerHour),
+      });
+    }
+  }
+
+  const draining = projectionPerHour > 0;
+  return {
+    rates,
+    projectionPerHour,
+    runwayHours: !draining ? null : tier === "hibernate" ? 0 : crossings[crossings.length - 1]?.etaHours ?? 0,
+    next: crossings[0] ?? null,
+    crossings,
+  };
+}
+
+// ─── Formatting ─────────────────────────────────────────────
+
+export function formatDuration(hours: number): string {
+  if (hours < 1) return `${Math.round(hours * 60)}m`;
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+}
+
+/** One-line summary for status reports and wake context */
+export function formatRunway(f: RunwayForecast): string {
+  const burn = `净消耗 ${Math.round(f.rates["1h"].netPerHour).toLocaleString()}/h (1h) · ${Math.round(f.rates["24h"].netPerHour).toLocaleString()}/h (24h) · ${Math.round(f.rates["7d"].netPerHour).toLocaleString()}/h (7d)`;
+  if (f.runwayHours === null) return `跑道: ∞（净收入为正） | ${burn}`;
+  const next = f.next ? ` | ${f.next.tier} 还有 ${formatDuration(f.next.etaHours)}` : "";
+  return `跑道: ${formatDuration(f.runwayHours)}${next} | ${burn}`;
+}
@@ -0,0 +1,171 @@
+/**
+ * History — 日 / 周 / 月统计序列
+ *
+ * 对标 Conway: survival/monitor.ts 的趋势判断
+ * 跨天时 today 块归档进 history（保留 400 天），周、月由日序列汇总：
+ * - `/moss report day|week|month`：本期 vs 上期（收入、支出、净额、LLM 调用、各等级停留时长）
+ * - periodic-thinking 的唤醒上下文带一行趋势，让 MOSS 知道在变好还是变坏
+ *
+ * 周从周一开始。
+ */
+
+import { SURVIVAL_TIER_ORDER, type EconomyState, type SurvivalTier } from "./tracker.js";
+import { formatDuration } from "./forecast.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type DailyStats = EconomyState["today"];
+
+export type HistoryPeriod = "day" | "week" | "month";
+
+export interface PeriodStats {
+  /** YYYY-MM-DD (day), Monday's YYYY-MM-DD (week), YYYY-MM (month) */
+  key: string;
+  /** Days with data in this period */
+  days: number;
+  tokensEarned: number;
+  tokensSpent: number;
+  /** tokensEarned - tokensSpent */
+  net: number;
+  usdcEarned: number;
+  usdcSpent: number;
+  llmCalls: number;
+  llmCostUsd: number;
+  tierMs: Partial<Record<SurvivalTier, number>>;
+}
+
+/** Days of daily history kept in economy.json */
+export const HISTORY_RETENTION_DAYS = 400;
+
+// ─── Period keys ────────────────────────────────────────────
+
+const DAY_MS = 86_400_000;
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function periodKey(date: string, period: HistoryPeriod): string {
+  if (period === "day") return date;
+  if (period === "month") return date.slice(0, 7);
+  const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7; // Monday = 0
+  return addDays(date, -weekday);
+}
+
+export function previousPeriodKey(key: string, period: HistoryPeriod): string {
+  if (period === "day") return addDays(key, -1);
+  if (period === "week") return addDays(key, -7);
+  const [y, m] = key.split("-").map(Number);
+  return m === 1 ? `${y - 1}-12` : `${y}-${String(m - 1).padStart(2, "0")}`;
+}
+
+// ─── Rollups ────────────────────────────────────────────────
+
+function emptyPeriod(key: string): PeriodStats {
+  return {
+    key,
+    days: 0,
+    tokensEarned: 0,
+    tokensSpent: 0,
+    net: 0,
+    usdcEarned: 0,
+    usdcSpent: 0,
+    llmCalls: 0,
+    llmCostUsd: 0,
+    tierMs: {},
+  };
+}
+
+/**
+ * Roll daily stats up into periods, oldest first.
+ */
+export function rollup(days: DailyStats[], period: HistoryPeriod): PeriodStats[] {
+  const periods = new Map<string, PeriodStats>();
+  for (const d of days) {
+    const key = periodKey(d.date, period);
+    const p = periods.get(key) ?? emptyPeriod(key);
+    p.days++;
+    p.tokensEarned += d.tokensEarned;
+    p.tokensSpent += d.tokensSpent;
+    p.net = p.tokensEarned - p.tokensSpent;
+    p.usdcEarned += d.usdcEarned;
+    p.usdcSpent += d.usdcSpent;
+    p.llmCalls += d.llmCalls;
+    p.llmCostUsd += d.llmCostUsd;
+    for (const [tier, ms] of Object.entries(d.tierMs ?? {})) {
+      p.tierMs[tier as SurvivalTier] = (p.tierMs[tier as SurvivalTier] ?? 0) + ms;
+    }
+    periods.set(key, p);
+  }
+  return [...periods.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+// ─── Formatting ─────────────────────────────────────────────
+
+const PERIOD_LABEL: Record<HistoryPeriod, [string, string]> = {
+  day: ["今日", "昨日"],
+  week: ["本周", "上周"],
+  month: ["本月", "上月"],
+};
+
+function signed(n: number): string {
+  return `${n >= 0 ? "+" : ""}${Math.round(n).toLocaleString()}`;
+}
+
+function change(cur: number, prev: number | undefined): string {
+  if (prev === undefined) return "";
+  const delta = cur - prev;
+  if (delta === 0) return " (持平)";
+  const pct = prev !== 0 ? ` ${delta > 0 ? "+" : ""}${Math.round((delta / Math.abs(prev)) * 100)}%` : "";
+  return ` (${delta > 0 ? "↑" : "↓"}${pct})`;
+}
+
+function formatTierTime(tierMs: PeriodStats["tierMs"]): string {
+  const parts = SURVIVAL_TIER_ORDER.filter((t) => (tierMs[t] ?? 0) > 0).map(
+    (t) => `${t} ${formatDuration(tierMs[t]! / 3_600_000)}`,
+  );
+  return parts.length > 0 ? parts.join(" · ") : "—";
+}
+
+export function formatPeriodReport(
+  period: HistoryPeriod,
+  current: PeriodStats,
+  previous: PeriodStats | undefined,
+): string {
+  const [curLabel, prevLabel] = PERIOD_LABEL[period];
+  const p = previous;
+  return [
+    `📅 ${curLabel} (${current.key}) vs ${prevLabel}${p ? ` (${p.key})` : "（无数据）"}`,
+    ``,
+    `  收入: +${current.tokensEarned.toLocaleString()} tokens${change(current.tokensEarned, p?.tokensEarned)}`,
+    `  支出: -${current.tokensSpent.toLocaleString()} tokens${change(current.tokensSpent, p?.tokensSpent)}`,
+    `  净额: ${signed(current.net)} tokens${change(current.net, p?.net)}`,
+    `  USDC: +$${current.usdcEarned.toFixed(4)} / -$${current.usdcSpent.toFixed(4)}`,
+    `  LLM 调用: ${current.llmCalls} 次${change(current.llmCalls, p?.llmCalls)} (成本 $${current.llmCostUsd.toFixed(4)})`,
+    `  等级停留: ${formatTierTime(current.tierMs)}`,
+    ...(p ? [``, `  ${prevLabel}: 收入 +${p.tokensEarned.toLocaleString()} / 支出 -${p.tokensSpent.toLocaleString()} / 净额 ${signed(p.net)} / 等级 ${formatTierTime(p.tierMs)}`] : []),
+  ].join("\n");
+}
+
+/**
+ * One-line trend: today's net vs the daily average of the last 7 full days,
+ * and that week vs the 7 days before.
+ */
+export function formatTrendLine(history: DailyStats[], today: DailyStats): string {
+  const past = history.filter((d) => d.date < today.date);
+  const avg = (days: DailyStats[]) =>
+    days.length > 0 ? days.reduce((sum, d) => sum + d.tokensEarned - d.tokensSpent, 0) / days.length : null;
+
+  const lastWeek = avg(past.filter((d) => d.date >= addDays(today.date, -7)));
+  const weekBefore = avg(past.filter((d) => d.date < addDays(today.date, -7) && d.date >= addDays(today.date, -14)));
+  const todayNet = today.tokensEarned - today.tokensSpent;
+
+  if (lastWeek === null) return `趋势: 今日净额 ${signed(todayNet)}（暂无历史）`;
+  const direction =
+    weekBefore === null ? "" : lastWeek > weekBefore ? " → 📈 好转" : lastWeek < weekBefore ? " → 📉 恶化" : " → 持平";
+  return [
+    `趋势: 今日净额 ${signed(todayNet)}`,
+    `近7日日均 ${signed(lastWeek)}`,
+    ...(weekBefore === null ? [] : [`前7日日均 ${signed(weekBefore)}${direction}`]),
+  ].join(" | ");
+}
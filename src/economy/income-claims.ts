@@ -0,0 +1,98 @@
+/**
+ * Income Claims — Agent 自报收入的待确认队列
+ *
+ * Agent 不能直接给自己记收入（否则生存经济形同虚设）：
+ * - boss_task_reward → 挂起，BOSS `/moss confirm <id>` 后才入账
+ * - x402_revenue    → 必须带 sourceRef（如 receipt id），
+ *                     已注册的 verifier 验证通过即入账，否则等 BOSS 确认
+ * - middleman_margin / subagent_income → 挂起，等 BOSS 确认
+ * 入账时按分成表拆分给 BOSS / MOSS / 储备（见 revenue-share.ts）
+ *
+ * Verifier 由外部插件注册（如链上 USDC 到账查询）：
+ *   api.get('moss.economy.registerRevenueVerifier')(verifier)
+ */
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type ClaimType = "boss_task_reward" | "x402_revenue" | "middleman_margin" | "subagent_income";
+export type ClaimStatus = "pending" | "confirmed" | "rejected";
+
+export interface IncomeClaim {
+  id: string;
+  createdAt: string;
+  type: ClaimType;
+  tokens: number;
+  usd: number;
+  description: string;
+  /** Verifiable source reference (receipt id, tx hash…) */
+  sourceRef?: string;
+  status: ClaimStatus;
+  /** boss, or the name of the verifier that accepted it */
+  decidedBy?: string;
+  decidedAt?: string;
+  note?: string;
+}
+
+export interface RevenueVerifier {
+  /** Verifier name (for logging and dedup) */
+  name: string;
+  /**
+   * Return true if the receipt proves the claimed revenue.
+   * Must not throw for unknown receipts — return false instead.
+   */
+  verify(sourceRef: string, claim: IncomeClaim): Promise<boolean>;
+}
+
+// ─── Verifier Registry ──────────────────────────────────────
+
+/** Module-level so verifiers survive service restarts */
+const verifiers: RevenueVerifier[] = [];
+
+export function registerRevenueVerifier(verifier: RevenueVerifier): void {
+  const existing = verifiers.findIndex((v) => v.name === verifier.name);
+  if (existing >= 0) {
+    verifiers[existing] = verifier;
+  } else {
+    verifiers.push(verifier);
+  }
+}
+
+export function unregisterRevenueVerifier(name: string): boolean {
+  const idx = verifiers.findIndex((v) => v.name === name);
+  if (idx < 0) return false;
+  verifiers.splice(idx, 1);
+  return true;
+}
+
+/**
+ * Run all verifiers; returns the name of the first one that accepts.
+ */
+export async function verifyRevenue(
+  sourceRef: string,
+  claim: IncomeClaim,
+  logger: any,
+): Promise<string | null> {
+  for (const verifier of verifiers) {
+    try {
+      if (await verifier.verify(sourceRef, claim)) return verifier.name;
+    } catch (err) {
+      logger.error(`[MOSS Economy] Verifier "${verifier.name}" failed: ${err}`);
+    }
+  }
+  return null;
+}
+
+export function formatIncomeClaim(c: IncomeClaim): string {
+  const icon: Record<ClaimStatus, string> = {
+    pending: "⏳",
+    confirmed: "✅",
+    rejected: "❌",
+  };
+  const amount = [
+    c.tokens ? `+${c.tokens.toLocaleString()} tokens` : "",
+    c.usd ? `+$${c.usd}` : "",
+  ].filter(Boolean).join(", ");
+  const ref = c.sourceRef ? ` [${c.sourceRef}]` : "";
+  const note = c.note ? ` (${c.note})` : "";
+  return `${icon[c.status]} ${c.id} ${c.type} ${amount} — ${c.description}${ref}${note}`;
+}
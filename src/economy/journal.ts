@@ -0,0 +1,326 @@
+/**
+ * Ledger Journal — 只追加的完整流水账
+ *
+ * 对标 Conway: state/ 的 append-only transaction log
+ * 兑现安全红线 #6「所有经济行为有审计日志」：
+ * - 每一笔交易都写入 data/ledger/YYYY-MM.jsonl（按月分段，永不删改）
+ * - economy.json 只保存快照（余额、累计、今日统计）
+ * - replay() 从流水重建余额和累计，与快照对账
+ *
+ * 旧版 economy.json 里的 ledger 迁移时写入流水（legacy），
+ * 随后写一条 opening_balance 记录快照，重放从该记录开始。
+ *
+ * 早期流水是单金额（amount + unit），读取时转换为 tokens + usd 双金额，
+ * 磁盘上的文件不改写。
+ */
+
+import { readFile, appendFile, mkdir, readdir, open } from "fs/promises";
+import { join } from "path";
+import type { EconomyState, LedgerEntry } from "./tracker.js";
+import { mossShareOf, type RevenueSplit } from "./revenue-share.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+/** The part of the snapshot that can be rebuilt from the journal */
+export interface JournalBalances {
+  tokenCredits: number;
+  usdcBalance: number;
+  lifetimeTokensEarned: number;
+  lifetimeTokensSpent: number;
+  lifetimeUsdcEarned: number;
+  lifetimeUsdcSpent: number;
+  lifetimeLlmCostUsd: number;
+  bossPayableTokens: number;
+  bossPayableUsd: number;
+  reserveTokens: number;
+  reserveUsd: number;
+}
+
+export interface JournalAudit {
+  ok: boolean;
+  entries: number;
+  rebuilt: JournalBalances;
+  snapshot: JournalBalances;
+  /** Fields where rebuilt and snapshot disagree */
+  diffs: Array<{ field: keyof JournalBalances; rebuilt: number; snapshot: number }>;
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+export function emptyBalances(): JournalBalances {
+  return {
+    tokenCredits: 0,
+    usdcBalance: 0,
+    lifetimeTokensEarned: 0,
+    lifetimeTokensSpent: 0,
+    lifetimeUsdcEarned: 0,
+    lifetimeUsdcSpent: 0,
+    lifetimeLlmCostUsd: 0,
+    bossPayableTokens: 0,
+    bossPayableUsd: 0,
+    reserveTokens: 0,
+    reserveUsd: 0,
+  };
+}
+
+export function balancesFromState(state: EconomyState): JournalBalances {
+  return {
+    tokenCredits: state.balance.tokenCredits,
+    usdcBalance: state.balance.usdcBalance,
+    lifetimeTokensEarned: state.totals.lifetimeTokensEarned,
+    lifetimeTokensSpent: state.totals.lifetimeTokensSpent,
+    lifetimeUsdcEarned: state.totals.lifetimeUsdcEarned,
+    lifetimeUsdcSpent: state.totals.lifetimeUsdcSpent,
+    lifetimeLlmCostUsd: state.totals.lifetimeLlmCostUsd,
+    bossPayableTokens: state.accounts.bossPayable.tokens,
+    bossPayableUsd: state.accounts.bossPayable.usd,
+    reserveTokens: state.accounts.reserve.tokens,
+    reserveUsd: state.accounts.reserve.usd,
+  };
+}
+
+/**
+ * Convert a single-amount entry (`amount` + `unit`) to tokens + usd.
+ * Entries already in the current shape pass through unchanged.
+ */
+export function normalizeLedgerEntry(raw: any): LedgerEntry {
+  if (Number.isFinite(raw.tokens) && Number.isFinite(raw.usd)) return raw as LedgerEntry;
+
+  const { amount, unit, ...rest } = raw;
+  const meta = raw.meta ? { ...raw.meta } : undefined;
+  let tokens = unit === "usd" ? 0 : Number(amount ?? 0);
+  let usd = unit === "usd" ? Number(amount ?? 0) : 0;
+
+  // Dividend payouts kept both amounts in meta
+  if (raw.type === "dividend_payout" && meta) {
+    tokens = Number(meta.tokens ?? tokens);
+    usd = Number(meta.usd ?? usd);
+    delete meta.tokens;
+    delete meta.usd;
+  }
+  if (meta?.original) meta.original = normalizeLedgerEntry(meta.original);
+
+  return { ...rest, tokens, usd, ...(meta && { meta }) };
+}
+
+/**
+ * Apply one journal entry to running balances.
+ * Mirrors EconomyTracker.recordIncome / recordExpense; a reversal applies
+ * its original entry with sign -1.
+ */
+export function applyEntry(b: JournalBalances, e: LedgerEntry, sign = 1): void {
+  if (e.meta?.legacy) return;
+
+  if (e.meta?.kind === "reversal") {
+    applyEntry(b, e.meta.original as LedgerEntry, -sign);
+    return;
+  }
+
+  if (e.meta?.kind === "opening_balance") {
+    Object.assign(b, emptyBalances(), e.meta.snapshot as JournalBalances);
+    return;
+  }
+
+  // Reconciliation sets the balance to the external value
+  if (e.meta?.kind === "reconciliation") {
+    const external = Number(e.meta.external);
+    const field = e.meta.account === "usdc" ? "usdcBalance" : "tokenCredits";
+    b[field] = Number.isFinite(external) ? external : b[field] + Number(e.meta.drift ?? 0);
+    return;
+  }
+
+  if (e.type === "dividend_payout") {
+    b.bossPayableTokens -= sign * e.tokens;
+    b.bossPayableUsd -= sign * e.usd;
+    return;
+  }
+
+  const split = e.meta?.split as RevenueSplit | undefined;
+  if (split) {
+    b.bossPayableTokens += sign * split.boss.tokens;
+    b.bossPayableUsd += sign * split.boss.usd;
+    b.reserveTokens += sign * split.reserve.tokens;
+    b.reserveUsd += sign * split.reserve.usd;
+  }
+
+  const { tokens, usd } = e.direction === "income" ? mossShareOf(e) : e;
+
+  if (e.direction === "income") {
+    b.tokenCredits += sign * tokens;
+    b.usdcBalance += sign * usd;
+    b.lifetimeTokensEarned += sign * tokens;
+    b.lifetimeUsdcEarned += sign * usd;
+  } else {
+    b.tokenCredits -= sign * tokens;
+    b.usdcBalance -= sign * usd;
+    b.lifetimeTokensSpent += sign * tokens;
+    b.lifetimeUsdcSpent += sign * usd;
+    b.lifetimeLlmCostUsd += sign * Number(e.meta?.costUsd ?? 0);
+  }
+}
+
+export function formatJournalAudit(audit: JournalAudit): string {
+  if (audit.ok) {
+    return `✅ 流水对账通过：${audit.entries} 条流水重放结果与快照一致`;
+  }
+  return [
+    `⚠️ 流水对账不一致（${audit.entries} 条流水）:`,
+    ...audit.diffs.map((d) => `  ${d.field}: 流水重建=${d.rebuilt} / 快照=${d.snapshot}`),
+    ``,
+    `用 /moss audit rebuild 以流水为准修正快照`,
+  ].join("\n");
+}
+
+/**
+ * True for a missing or empty file, or one whose last byte is "\n".
+ */
+async function endsWithNewline(path: string): Promise<boolean> {
+  let handle;
+  try {
+    handle = await open(path, "r");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return true;
+    throw err;
+  }
+  try {
+    const { size } = await handle.stat();
+    if (size === 0) return true;
+    const { buffer } = await handle.read(Buffer.alloc(1), 0, 1, size - 1);
+    return buffer[0] === 0x0a;
+  } finally {
+    await handle.close();
+  }
+}
+
+// ─── Journal ────────────────────────────────────────────────
+
+export class LedgerJournal {
+  private dir: string;
+
+  constructor(baseDir: string) {
+    this.dir = join(baseDir, "ledger");
+  }
+
+  /**
+   * Append entries to their monthly segments.
+   */
+  async append(entries: LedgerEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await mkdir(this.dir, { recursive: true });
+
+    const bySegment = new Map<string, string[]>();
+    for (const entry of entries) {
+      const segment = entry.timestamp.slice(0, 7);
+      const lines = bySegment.get(segment) ?? [];
+      lines.push(JSON.stringify(entry));
+      bySegment.set(segment, lines);
+    }
+
+    for (const [segment, lines] of bySegment) {
+      const path = join(this.dir, `${segment}.jsonl`);
+      // A torn write leaves no trailing newline; don't glue the first new entry onto it
+      const prefix = (await endsWithNewline(path)) ? "" : "\n";
+      await appendFile(path, prefix + lines.join("\n") + "\n");
+    }
+  }
+
+  /**
+   * List segment names (YYYY-MM), oldest first.
+   */
+  async segments(): Promise<string[]> {
+    try {
+      const files = await readdir(this.dir);
+      return files
+        .filter((f) => /^\d{4}-\d{2}\.jsonl$/.test(f))
+        .map((f) => f.slice(0, 7))
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Read entries, oldest first. Optional [from, to] ISO bounds (inclusive).
+   */
+  async read(range: { from?: string; to?: string } = {}): Promise<LedgerEntry[]> {
+    const entries: LedgerEntry[] = [];
+    for (const segment of await this.segments()) {
+      if (range.from && segment < range.from.slice(0, 7)) continue;
+      if (range.to && segment > range.to.slice(0, 7)) continue;
+
+      for (const entry of await this.readSegment(segment)) {
+        if (range.from && entry.timestamp < range.from) continue;
+        if (range.to && entry.timestamp > range.to) continue;
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Read the last N entries (walks segments newest first).
+   */
+  async tail(count: number): Promise<LedgerEntry[]> {
+    const result: LedgerEntry[] = [];
+    const segments = (await this.segments()).reverse();
+    for (const segment of segments) {
+      if (result.length >= count) break;
+      const entries = await this.readSegment(segment);
+      result.unshift(...entries.slice(-(count - result.length)));
+    }
+    return result;
+  }
+
+  private async readSegment(segment: string): Promise<LedgerEntry[]> {
+    const raw = await readFile(join(this.dir, `${segment}.jsonl`), "utf-8");
+    const entries: LedgerEntry[] = [];
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(normalizeLedgerEntry(JSON.parse(line)));
+      } catch {
+        // skip malformed lines (e.g. torn write at crash)
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Timestamp of the oldest entry, or null when empty.
+   */
+  async firstTimestamp(): Promise<string | null> {
+    const [first] = await this.segments();
+    if (!first) return null;
+    return (await this.readSegment(first))[0]?.timestamp ?? null;
+  }
+
+  async isEmpty(): Promise<boolean> {
+    return (await this.segments()).length === 0;
+  }
+
+  /**
+   * Rebuild balances and totals by replaying the whole journal.
+   */
+  async replay(): Promise<{ balances: JournalBalances; entries: number }> {
+    const balances = emptyBalances();
+    const entries = await this.read();
+    for (const entry of entries) {
+      applyEntry(balances, entry);
+    }
+    return { balances, entries: entries.length };
+  }
+
+  /**
+   * Replay and compare against a snapshot.
+   */
+  async audit(snapshot: JournalBalances, epsilon = 1e-6): Promise<JournalAudit> {
+    const { balances, entries } = await this.replay();
+    const diffs: JournalAudit["diffs"] = [];
+    for (const field of Object.keys(snapshot) as Array<keyof JournalBalances>) {
+      if (Math.abs(balances[field] - snapshot[field]) > epsilon) {
+        diffs.push({ field, rebuilt: balances[field], snapshot: snapshot[field] });
+      }
+    }
+    return { ok: diffs.length === 0, entries, rebuilt: balances, snapshot, diffs };
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Ledger Query — 结构化流水查询与聚合
+ *
+ * 从 append-only 流水里按条件筛选，并按天 / 模型 / 类型等聚合，
+ * 回答「这周哪个模型最花钱」这类问题。
+ * - EconomyTracker.queryLedger() 返回结构化结果
+ * - moss_ledger_query 工具把结果放进 details（JSON）
+ * - `/moss ledger key=value ...` 用同一套过滤条件
+ */
+
+import type { LedgerEntry } from "./tracker.js";
+import { DEFAULT_TIME_ZONE, dayEndMs, dayStartMs, localDate, localTime } from "./timezone.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export const LEDGER_ENTRY_TYPES: readonly LedgerEntry["type"][] = [
+  "boss_task_reward",
+  "x402_revenue",
+  "middleman_margin",
+  "subagent_income",
+  "llm_inference",
+  "x402_payment",
+  "dividend_payout",
+  "manual_adjustment",
+];
+
+export const LEDGER_GROUP_BY = ["day", "model", "provider", "type", "session"] as const;
+export type LedgerGroupBy = (typeof LEDGER_GROUP_BY)[number];
+
+export interface LedgerQuery {
+  type?: LedgerEntry["type"];
+  direction?: LedgerEntry["direction"];
+  /** Entries carrying a non-zero amount in this unit */
+  unit?: "tokens" | "usd";
+  /** Substring match on meta.model */
+  model?: string;
+  provider?: string;
+  /** Substring match on meta.sessionId */
+  sessionId?: string;
+  /** ISO timestamp or local YYYY-MM-DD (inclusive) */
+  from?: string;
+  /** ISO timestamp or local YYYY-MM-DD (inclusive, whole day) */
+  to?: string;
+  /** Shorthand for from = now - N days */
+  days?: number;
+  groupBy?: LedgerGroupBy;
+  /** Max entries returned (newest kept); aggregation covers all matches. Default 50 */
+  limit?: number;
+}
+
+export interface LedgerGroup {
+  key: string;
+  count: number;
+  tokensIn: number;
+  tokensOut: number;
+  usdIn: number;
+  usdOut: number;
+  /** Real USD cost of LLM calls (meta.costUsd) */
+  llmCostUsd: number;
+}
+
+export interface LedgerQueryResult {
+  query: LedgerQuery;
+  matched: number;
+  /** Newest last, at most `limit` */
+  entries: LedgerEntry[];
+  totals: Omit<LedgerGroup, "key">;
+  groups?: LedgerGroup[];
+}
+
+// ─── Filtering ──────────────────────────────────────────────
+
+function isDate(s: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(s);
+}
+
+/**
+ * Resolve from/to/days into inclusive ISO bounds. Bare dates are local days.
+ */
+export function queryRange(
+  q: LedgerQuery,
+  timeZone = DEFAULT_TIME_ZONE,
+  now = Date.now(),
+): { from?: string; to?: string } {
+  let from = q.from && isDate(q.from) ? new Date(dayStartMs(q.from, timeZone)).toISOString() : q.from;
+  if (q.days !== undefined && q.days > 0) {
+    const since = new Date(now - q.days * 86_400_000).toISOString();
+    from = from && from > since ? from : since;
+  }
+  const to = q.to && isDate(q.to) ? new Date(dayEndMs(q.to, timeZone) - 1).toISOString() : q.to;
+  return { from, to };
+}
+
+/**
+ * Reject filters that could only ever match nothing (tool input is not type-checked).
+ */
+export function validateLedgerQuery(q: LedgerQuery): void {
+  if (q.type !== undefined && !LEDGER_ENTRY_TYPES.includes(q.type)) {
+    throw new Error(`type 只能是 ${LEDGER_ENTRY_TYPES.join(" / ")}`);
+  }
+  if (q.direction !== undefined && q.direction !== "income" && q.direction !== "expense") {
+    throw new Error(`direction 只能是 income / expense`);
+  }
+  if (q.unit !== undefined && q.unit !== "tokens" && q.unit !== "usd") {
+    throw new Error(`unit 只能是 tokens / usd`);
+  }
+  if (q.groupBy !== undefined && !LEDGER_GROUP_BY.includes(q.groupBy)) {
+    throw new Error(`by 只能是 ${LEDGER_GROUP_BY.join(" / ")}`);
+  }
+  if (q.days !== undefined && (!Number.isFinite(q.days) || q.days <= 0)) throw new Error(`days 无效: ${q.days}`);
+  if (q.limit !== undefined && (!Number.isInteger(q.limit) || q.limit < 0)) throw new Error(`limit 无效: ${q.limit}`);
+  for (const bound of [q.from, q.to]) {
+    if (bound !== undefined && !Number.isFinite(Date.parse(bound))) throw new Error(`日期无效: ${bound}`);
+  }
+}
+
+export function matchesQuery(e: LedgerEntry, q: LedgerQuery): boolean {
+  // Synthetic migration marker, not a transaction
+  if (e.meta?.kind === "opening_balance") return false;
+
+  if (q.type && e.type !== q.type) return false;
+  if (q.direction && e.direction !== q.direction) return false;
+  if (q.unit && !(q.unit === "tokens" ? e.tokens : e.usd)) return false;
+  if (q.model && !String(e.meta?.model ?? "").includes(q.model)) return false;
+  if (q.provider && e.meta?.provider !== q.provider) return false;
+  if (q.sessionId && !String(e.meta?.sessionId ?? "").includes(q.sessionId)) return false;
+  return true;
+}
+
+// ─── Aggregation ────────────────────────────────────────────
+
+function groupKey(e: LedgerEntry, by: LedgerGroupBy, timeZone: string): string {
+  switch (by) {
+    case "day":
+      return localDate(Date.parse(e.timestamp), timeZone);
+    case "model":
+      return String(e.meta?.model ?? "(none)");
+    case "provider":
+      return String(e.meta?.provider ?? "(none)");
+    case "type":
+      return e.type;
+    case "session":
+      return String(e.meta?.sessionId ?? "(none)");
+  }
+}
+
+function emptyGroup(key: string): LedgerGroup {
+  return { key, count: 0, tokensIn: 0, tokensOut: 0, usdIn: 0, usdOut: 0, llmCostUsd: 0 };
+}
+
+function addToGroup(g: LedgerGroup, e: LedgerEntry): void {
+  g.count++;
+  const income = e.direction === "income";
+  if (income) {
+    g.tokensIn += e.tokens;
+    g.usdIn += e.usd;
+  } else {
+    g.tokensOut += e.tokens;
+    g.usdOut += e.usd;
+  }
+  g.llmCostUsd += Number(e.meta?.costUsd ?? 0);
+}
+
+/**
+ * Group entries. Days sort chronologically, everything else by spend (largest first).
+ */
+export function aggregateLedger(
+  entries: LedgerEntry[],
+  by: LedgerGroupBy,
+  timeZone = DEFAULT_TIME_ZONE,
+): LedgerGroup[] {
+  const groups = new Map<string, LedgerGroup>();
+  for (const e of entries) {
+    const key = groupKey(e, by, timeZone);
+    const g = groups.get(key) ?? emptyGroup(key);
+    addToGroup(g, e);
+    groups.set(key, g);
+  }
+
+  const list = [...groups.values()];
+  return by === "day"
+    ? list.sort((a, b) => a.key.localeCompare(b.key))
+    : list.sort((a, b) => b.tokensOut - a.tokensOut || b.usdOut - a.usdOut);
+}
+
+export function runLedgerQuery(
+  entries: LedgerEntry[],
+  q: LedgerQuery,
+  timeZone = DEFAULT_TIME_ZONE,
+): LedgerQueryResult {
+  const matched = entries.filter((e) => matchesQuery(e, q));
+  const totals = emptyGroup("");
+  for (const e of matched) addToGroup(totals, e);
+  const { key: _key, ...totalsOnly } = totals;
+
+  return {
+    query: q,
+    matched: matched.length,
+    entries: matched.slice(-(q.limit ?? 50)),
+    totals: totalsOnly,
+    ...(q.groupBy && { groups: aggregateLedger(matched, q.groupBy, timeZone) }),
+  };
+}
+
+// ─── Command parsing ────────────────────────────────────────
+
+/**
+ * Parse `/moss ledger` arguments: a bare number is the limit, the rest are
+ * key=value filters (type, dir, unit, model, provider, session, from, to, days, by).
+ */
+export function parseLedgerArgs(args: string[]): LedgerQuery {
+  const q: LedgerQuery = {};
+  for (const arg of args) {
+    if (/^\d+$/.test(arg)) {
+      q.limit = parseInt(arg);
+      continue;
+    }
+    const eq = arg.indexOf("=");
+    if (eq <= 0) throw new Error(`无法识别的参数: ${arg}`);
+    const key = arg.slice(0, eq);
+    const value = arg.slice(eq + 1);
+
+    switch (key) {
+      case "type":
+        if (!(LEDGER_ENTRY_TYPES as readonly string[]).includes(value)) {
+          throw new Error(`type 只能是 ${LEDGER_ENTRY_TYPES.join(" / ")}`);
+        }
+        q.type = value as LedgerEntry["type"];
+        break;
+      case "dir":
+      case "direction":
+        if (value !== "income" && value !== "expense") throw new Error(`direction 只能是 income / expense`);
+        q.direction = value;
+        break;
+      case "unit":
+        if (value !== "tokens" && value !== "usd") throw new Error(`unit 只能是 tokens / usd`);
+        q.unit = value;
+        break;
+      case "model":
+        q.model = value;
+        break;
+      case "provider":
+        q.provider = value;
+        break;
+      case "session":
+        q.sessionId = value;
+        break;
+      case "from":
+        q.from = value;
+        break;
+      case "to":
+        q.to = value;
+        break;
+      case "days":
+        q.days = Number(value);
+        if (!Number.isFinite(q.days) || q.days <= 0) throw new Error(`days 无效: ${value}`);
+        break;
+      case "by":
+        if (!(LEDGER_GROUP_BY as readonly string[]).includes(value)) {
+          throw new Error(`by 只能是 ${LEDGER_GROUP_BY.join(" / ")}`);
+        }
+        q.groupBy = value as LedgerGroupBy;
+        break;
+      default:
+        throw new Error(`未知过滤条件: ${key}`);
+    }
+  }
+  return q;
+}
+
+// ─── Formatting ─────────────────────────────────────────────
+
+function formatAmounts(g: Omit<LedgerGroup, "key">): string {
+  const parts = [
+    g.tokensIn ? `+${g.tokensIn.toLocaleString()}` : "",
+    g.tokensOut ? `-${g.tokensOut.toLocaleString()}` : "",
+    g.usdIn ? `+$${g.usdIn.toFixed(4)}` : "",
+    g.usdOut ? `-$${g.usdOut.toFixed(4)}` : "",
+    g.llmCostUsd ? `(LLM $${g.llmCostUsd.toFixed(4)})` : "",
+  ].filter(Boolean);
+  return `${g.count} 笔 ${parts.join(" ") || "0"}`;
+}
+
+export function formatLedgerEntry(e: LedgerEntry, timeZone = DEFAULT_TIME_ZONE): string {
+  const sign = e.direction === "income" ? "+" : "-";
+  const emoji = e.direction === "income" ? "💚" : "💸";
+  const amounts = [
+    e.tokens ? `${sign}${e.tokens.toLocaleString()} tokens` : "",
+    e.usd ? `${sign}$${e.usd.toFixed(4)}` : "",
+  ].filter(Boolean);
+  return `${emoji} ${localTime(e.timestamp, timeZone)} ${amounts.join(" ") || "0"} — ${e.description} [${e.id}]`;
+}
+
+export function formatLedgerQueryResult(r: LedgerQueryResult, timeZone = DEFAULT_TIME_ZONE): string {
+  if (r.matched === 0) return "📒 没有符合条件的流水";
+
+  const lines = [`📒 匹配 ${formatAmounts(r.totals)}`];
+  if (r.groups) {
+    lines.push(``, `按 ${r.query.groupBy} 汇总:`);
+    lines.push(...r.groups.map((g) => `  ${g.key}: ${formatAmounts(g)}`));
+  } else {
+    lines.push(``, ...r.entries.map((e) => formatLedgerEntry(e, timeZone)));
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,98 @@
+/**
+ * State Migrations — economy.json 结构升级
+ *
+ * 由 EconomyState.version 驱动：按顺序执行 v(n) → v(n+1) 的迁移，
+ * 最后用默认值深合并补齐新增的嵌套字段（避免浅合并丢掉 config.spendLimits 这类字段）。
+ *
+ * 新增字段只需改 createDefaultState；字段改名/搬迁才需要写迁移。
+ */
+
+import { StateFileError, StateVersionError } from "./persistence.js";
+
+// ─── Versions ───────────────────────────────────────────────
+
+export const CURRENT_STATE_VERSION = 3;
+
+type Migration = (state: Record<string, any>) => void;
+
+/** migrations[n] upgrades a v(n) state to v(n+1) */
+const migrations: Record<number, Migration> = {
+  // v1 → v2: ledger 搬到 append-only 流水（data/ledger/），快照不再保存
+  1: (state) => {
+    delete state.ledger;
+  },
+  // v2 → v3: 流水改为 tokens + usd 双金额（读取时转换）；USD 支出从此扣减 usdcBalance，
+  // 快照里的 USDC 余额需按流水重放修正 —— 要读流水，由 EconomyTracker.applySnapshot 完成
+  2: () => {},
+};
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function isPlainObject(v: unknown): v is Record<string, any> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/**
+ * Fill missing fields from defaults, recursing into nested objects.
+ * Values present in `loaded` always win; arrays are taken as-is.
+ */
+export function mergeDefaults<T>(defaults: T, loaded: unknown): T {
+  if (!isPlainObject(defaults) || !isPlainObject(loaded)) {
+    return (loaded === undefined ? defaults : loaded) as T;
+  }
+  const result: Record<string, any> = { ...loaded };
+  for (const [key, value] of Object.entries(defaults)) {
+    result[key] = mergeDefaults(value, loaded[key]);
+  }
+  return result as T;
+}
+
+/**
+ * Minimal shape check — catches files that parse but are not an economy state.
+ */
+function validate(state: Record<string, any>, path: string): void {
+  const ok =
+    isPlainObject(state.balance) &&
+    Number.isFinite(state.balance.tokenCredits) &&
+    Number.isFinite(state.balance.usdcBalance) &&
+    isPlainObject(state.totals);
+  if (!ok) {
+    throw new StateFileError(`${path} 结构无效（缺少 balance/totals）`, path);
+  }
+}
+
+// ─── Migrate ────────────────────────────────────────────────
+
+/**
+ * Validate, migrate and fill defaults. Mutates nothing passed in.
+ */
+export function migrateState<T extends { version: number }>(
+  loaded: unknown,
+  defaults: T,
+  path: string,
+  logger: any,
+): T {
+  if (!isPlainObject(loaded)) {
+    throw new StateFileError(`${path} 不是对象`, path);
+  }
+  const state = structuredClone(loaded);
+  validate(state, path);
+
+  let version = Number.isInteger(state.version) ? (state.version as number) : 1;
+  if (version > CURRENT_STATE_VERSION) {
+    throw new StateVersionError(
+      `${path} 版本 v${version} 高于当前支持的 v${CURRENT_STATE_VERSION}，拒绝降级加载（请升级插件）`,
+      path,
+      version,
+    );
+  }
+
+  while (version < CURRENT_STATE_VERSION) {
+    migrations[version]?.(state);
+    version++;
+    logger.info(`[MOSS Economy] Migrated state to v${version}`);
+  }
+  state.version = CURRENT_STATE_VERSION;
+
+  return mergeDefaults(defaults, state);
+}
@@ -0,0 +1,74 @@
+/**
+ * Payment Authorization — x402 支出守门
+ *
+ * 对标 Conway: agent/spend-tracker.ts 的 spend limit 检查
+ * 落实安全红线：
+ *   #1 MOSS 不能自行决定对外转账（超限 → BOSS 授权）
+ *   #4 单次 x402 支出上限
+ *   #5 每日支出上限
+ *
+ * 所有 x402_payment 流水只能经 EconomyTracker.authorizePayment 写入。
+ */
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type PaymentStatus = "approved" | "pending" | "rejected" | "denied";
+
+export interface PaymentRequest {
+  id: string;
+  createdAt: string;
+  amountUsd: number;
+  payee: string;
+  reason: string;
+  status: PaymentStatus;
+  /** Who decided: auto (within limits) or boss (manual approval/denial) */
+  decidedBy?: "auto" | "boss";
+  decidedAt?: string;
+  /** Why it was parked or rejected */
+  note?: string;
+}
+
+export interface SpendLimits {
+  maxSingleX402Usd: number;
+  maxDailyX402Usd: number;
+}
+
+export type LimitCheck =
+  | { ok: true }
+  | { ok: false; reason: string };
+
+// ─── Limit evaluation ───────────────────────────────────────
+
+/**
+ * Check an amount against the single and daily spend limits.
+ */
+export function checkSpendLimits(
+  amountUsd: number,
+  spentTodayUsd: number,
+  limits: SpendLimits,
+): LimitCheck {
+  if (amountUsd > limits.maxSingleX402Usd) {
+    return {
+      ok: false,
+      reason: `单次金额 $${amountUsd} 超过上限 $${limits.maxSingleX402Usd}`,
+    };
+  }
+  if (spentTodayUsd + amountUsd > limits.maxDailyX402Usd) {
+    return {
+      ok: false,
+      reason: `今日累计 $${(spentTodayUsd + amountUsd).toFixed(4)} 将超过每日上限 $${limits.maxDailyX402Usd}`,
+    };
+  }
+  return { ok: true };
+}
+
+export function formatPaymentRequest(p: PaymentRequest): string {
+  const icon: Record<PaymentStatus, string> = {
+    approved: "✅",
+    pending: "⏳",
+    rejected: "⛔",
+    denied: "❌",
+  };
+  const note = p.note ? ` (${p.note})` : "";
+  return `${icon[p.status]} ${p.id} $${p.amountUsd} → ${p.payee} — ${p.reason}${note}`;
+}
@@ -0,0 +1,135 @@
+/**
+ * Persistence — economy.json 的防崩溃读写
+ *
+ * - 原子写：先写临时文件并 fsync，再 rename 覆盖（不会出现半截文件）
+ * - 滚动备份：每小时最多一份，保留最近 N 份（data/backups/）
+ * - 损坏隔离：读不出的文件改名为 *.corrupt-<ts>，保留现场
+ */
+
+import { open, readFile, rename, mkdir, readdir, copyFile, unlink } from "fs/promises";
+import { basename, dirname, join } from "path";
+
+// ─── Errors ─────────────────────────────────────────────────
+
+export class StateFileError extends Error {
+  constructor(
+    message: string,
+    public readonly path: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = "StateFileError";
+  }
+}
+
+/**
+ * The file was written by a newer plugin version. It is valid, just not ours to
+ * read — never quarantine or replace it; startup fails until the plugin is upgraded.
+ */
+export class StateVersionError extends Error {
+  constructor(
+    message: string,
+    public readonly path: string,
+    public readonly version: number,
+  ) {
+    super(message);
+    this.name = "StateVersionError";
+  }
+}
+
+// ─── Read / Write ───────────────────────────────────────────
+
+/**
+ * Read and parse a JSON file.
+ * Returns null if the file does not exist; throws StateFileError if it is unreadable.
+ */
+export async function readJsonFile<T>(path: string): Promise<T | null> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf-8");
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return null;
+    throw new StateFileError(`无法读取 ${path}: ${err}`, path, err);
+  }
+  try {
+    return JSON.parse(raw) as T;
+  } catch (err) {
+    throw new StateFileError(`${path} 不是合法 JSON（可能写入中断）: ${err}`, path, err);
+  }
+}
+
+/**
+ * Write a file atomically: temp file + fsync + rename.
+ */
+export async function writeFileAtomic(path: string, data: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tmp = `${path}.tmp-${process.pid}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  const handle = await open(tmp, "w");
+  try {
+    await handle.writeFile(data);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await rename(tmp, path);
+}
+
+/**
+ * Move a corrupt file aside so it is never overwritten. Returns the new path.
+ */
+export async function quarantineFile(path: string): Promise<string | null> {
+  const target = `${path}.corrupt-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+  try {
+    await rename(path, target);
+    return target;
+  } catch {
+    return null;
+  }
+}
+
+// ─── Backups ────────────────────────────────────────────────
+
+export class BackupRotator {
+  private lastBackupAt = 0;
+
+  constructor(
+    private backupDir: string,
+    private keep = 24,
+    private minIntervalMs = 3_600_000,
+  ) {}
+
+  /**
+   * Copy the file into the backup dir if the last backup is old enough,
+   * then prune to the newest `keep` copies.
+   */
+  async maybeBackup(path: string): Promise<void> {
+    if (Date.now() - this.lastBackupAt < this.minIntervalMs) return;
+
+    await mkdir(this.backupDir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const name = basename(path).replace(/\.json$/, "");
+    await copyFile(path, join(this.backupDir, `${name}-${stamp}.json`));
+    this.lastBackupAt = Date.now();
+
+    const backups = await this.list();
+    for (const old of backups.slice(this.keep)) {
+      await unlink(old).catch(() => {});
+    }
+  }
+
+  /**
+   * Backup paths, newest first.
+   */
+  async list(): Promise<string[]> {
+    try {
+      const files = await readdir(this.backupDir);
+      return files
+        .filter((f) => f.endsWith(".json"))
+        .sort()
+        .reverse()
+        .map((f) => join(this.backupDir, f));
+    } catch {
+      return [];
+    }
+  }
+}
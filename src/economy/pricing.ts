@@ -0,0 +1,156 @@
+/**
+ * Pricing Table — 按 provider/model 计价
+ *
+ * 对标 Conway: agent/spend-tracker.ts 的 cost 计算
+ * 把 llm_output 的 usage（input / output / cacheRead / cacheWrite）
+ * 换算成真实 USD 成本，再折算成加权 token（记账单位）。
+ *
+ * 加权 token = costUsd / baseUsdPerMTok × 1M
+ * 即：1 个记账 token ≈ 按基准价计费的 1 个 input token。
+ * 便宜的缓存读取扣得少，昂贵模型的 output 扣得多。
+ */
+
+// ─── Types ──────────────────────────────────────────────────
+
+/** USD per 1M tokens, per usage component */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+export interface TokenUsage {
+  input?: number;
+  output?: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+export interface PricingConfig {
+  /** Reference price (USD / 1M tokens) that one accounting token represents */
+  baseUsdPerMTok: number;
+  /**
+   * Price table. Keys are "provider/modelPrefix", "modelPrefix" or "*".
+   * Model ids match by prefix, so "anthropic/claude-sonnet-4" covers
+   * "claude-sonnet-4-20250514".
+   */
+  models: Record<string, Partial<ModelPrice>>;
+}
+
+export interface InferenceCost {
+  /** Raw token count (all components, unweighted) */
+  rawTokens: number;
+  /** Weighted accounting tokens (debited from balance) */
+  tokens: number;
+  /** Real cost in USD */
+  usd: number;
+  /** Which table key was used */
+  priceKey: string;
+}
+
+// ─── Defaults ───────────────────────────────────────────────
+
+export const DEFAULT_PRICING: PricingConfig = {
+  baseUsdPerMTok: 3,
+  models: {
+    "anthropic/claude-opus-4": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+    "anthropic/claude-sonnet-4": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+    "anthropic/claude-3-7-sonnet": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+    "anthropic/claude-3-5-haiku": { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+    "openai/gpt-4o-mini": { input: 0.15, output: 0.6, cacheRead: 0.075, cacheWrite: 0 },
+    "openai/gpt-4o": { input: 2.5, output: 10, cacheRead: 1.25, cacheWrite: 0 },
+    "deepseek/deepseek-chat": { input: 0.27, output: 1.1, cacheRead: 0.07, cacheWrite: 0.27 },
+    "deepseek/deepseek-reasoner": { input: 0.55, output: 2.19, cacheRead: 0.14, cacheWrite: 0.55 },
+  },
+};
+
+// ─── Pricing Table ──────────────────────────────────────────
+
+export class PricingTable {
+  private config: PricingConfig;
+
+  constructor(overrides?: Partial<PricingConfig>) {
+    this.config = {
+      baseUsdPerMTok: overrides?.baseUsdPerMTok ?? DEFAULT_PRICING.baseUsdPerMTok,
+      models: { ...DEFAULT_PRICING.models, ...(overrides?.models ?? {}) },
+    };
+  }
+
+  /**
+   * Resolve the price for a provider/model pair.
+   *
+   * 优先级：provider 限定的最长前缀 > 不限 provider 的最长前缀 > "*" > 基准价
+   */
+  resolve(provider?: string, model?: string): { key: string; price: ModelPrice } {
+    const base = this.config.baseUsdPerMTok;
+    const fallback: ModelPrice = { input: base, output: base, cacheRead: base, cacheWrite: base };
+    const m = (model ?? "").toLowerCase();
+    const p = (provider ?? "").toLowerCase();
+
+    let best: { key: string; score: number } | null = null;
+    if (m) {
+      for (const key of Object.keys(this.config.models)) {
+        if (key === "*") continue;
+        const slash = key.indexOf("/");
+        const keyProvider = slash >= 0 ? key.slice(0, slash).toLowerCase() : "";
+        const keyModel = (slash >= 0 ? key.slice(slash + 1) : key).toLowerCase();
+
+        if (keyProvider && keyProvider !== p) continue;
+        if (!m.startsWith(keyModel)) continue;
+
+        // Provider-qualified keys beat bare keys; longer prefixes beat shorter
+        const score = keyModel.length * 2 + (keyProvider ? 1 : 0);
+        if (!best || score > best.score) best = { key, score };
+      }
+    }
+
+    const key = best?.key ?? (this.config.models["*"] ? "*" : "base");
+    const entry = this.config.models[key] ?? {};
+    return {
+      key,
+      price: {
+        input: entry.input ?? fallback.input,
+        output: entry.output ?? fallback.output,
+        cacheRead: entry.cacheRead ?? fallback.cacheRead,
+        cacheWrite: entry.cacheWrite ?? fallback.cacheWrite,
+      },
+    };
+  }
+
+  /**
+   * Compute the real and weighted cost of one inference call.
+   */
+  cost(usage: TokenUsage, provider?: string, model?: string): InferenceCost {
+    const { key, price } = this.resolve(provider, model);
+    const input = usage.input ?? 0;
+    const output = usage.output ?? 0;
+    const cacheRead = usage.cacheRead ?? 0;
+    const cacheWrite = usage.cacheWrite ?? 0;
+
+    const usd =
+      (input * price.input +
+        output * price.output +
+        cacheRead * price.cacheRead +
+        cacheWrite * price.cacheWrite) /
+      1_000_000;
+
+    return {
+      rawTokens: input + output + cacheRead + cacheWrite,
+      tokens: this.tokensForUsd(usd),
+      usd,
+      priceKey: key,
+    };
+  }
+
+  /**
+   * Accounting tokens worth `usd` at the reference price.
+   */
+  tokensForUsd(usd: number): number {
+    return Math.round((usd / this.config.baseUsdPerMTok) * 1_000_000);
+  }
+
+  getConfig(): PricingConfig {
+    return this.config;
+  }
+}
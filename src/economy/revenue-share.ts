@@ -0,0 +1,113 @@
+/**
+ * Revenue Share — BOSS / MOSS 收入分成
+ *
+ * 对标自主计划「外部收入分配」表：
+ *   x402 服务收入   BOSS 70% / MOSS 30%
+ *   中间商差价      BOSS 50% / MOSS 50%
+ *   子 agent 收入   BOSS 60% / MOSS 40%
+ *
+ * 入账时按收入类型自动拆分到三个子账户：
+ * - MOSS 运营余额（balance.tokenCredits / usdcBalance）
+ * - BOSS 应付分红（accounts.bossPayable，BOSS 提取后 `/moss payout` 记账）
+ * - 储备金（accounts.reserve）
+ * 未列出的类型（如 BOSS 任务奖励）100% 归 MOSS。
+ *
+ * 分成比例只能通过插件配置修改，Agent 无权改动（安全红线 #2）。
+ */
+
+import type { LedgerEntry } from "./tracker.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+/** Percentages, must sum to 100 */
+export interface RevenueShare {
+  boss: number;
+  moss: number;
+  reserve: number;
+}
+
+/** Keyed by income ledger type */
+export type ShareTable = Partial<Record<LedgerEntry["type"], RevenueShare>>;
+
+export interface Money {
+  tokens: number;
+  usd: number;
+}
+
+export interface RevenueSplit {
+  boss: Money;
+  moss: Money;
+  reserve: Money;
+}
+
+// ─── Defaults ───────────────────────────────────────────────
+
+export const DEFAULT_REVENUE_SHARES: ShareTable = {
+  x402_revenue: { boss: 70, moss: 30, reserve: 0 },
+  middleman_margin: { boss: 50, moss: 50, reserve: 0 },
+  subagent_income: { boss: 60, moss: 40, reserve: 0 },
+};
+
+// ─── Helpers ────────────────────────────────────────────────
+
+export function emptyMoney(): Money {
+  return { tokens: 0, usd: 0 };
+}
+
+/**
+ * Split an amount by share. Tokens are whole numbers, USD is rounded to
+ * micro-dollars; rounding remainders stay with MOSS so nothing is lost.
+ */
+export function splitRevenue(tokens: number, usd: number, share: RevenueShare): RevenueSplit {
+  const part = (amount: number, pct: number, round: (n: number) => number) => round((amount * pct) / 100);
+  const whole = Math.floor;
+  const micro = (n: number) => Math.floor(n * 1e6) / 1e6;
+
+  const boss = { tokens: part(tokens, share.boss, whole), usd: part(usd, share.boss, micro) };
+  const reserve = { tokens: part(tokens, share.reserve, whole), usd: part(usd, share.reserve, micro) };
+  return {
+    boss,
+    reserve,
+    moss: {
+      tokens: tokens - boss.tokens - reserve.tokens,
+      usd: Math.round((usd - boss.usd - reserve.usd) * 1e6) / 1e6,
+    },
+  };
+}
+
+/**
+ * MOSS's part of an income entry (the whole amount when it was not split).
+ */
+export function mossShareOf(e: LedgerEntry): Money {
+  const split = e.meta?.split as RevenueSplit | undefined;
+  if (split) return split.moss;
+  return { tokens: e.tokens, usd: e.usd };
+}
+
+/**
+ * Returns an error message, or null if valid.
+ */
+export function validateShareTable(table: ShareTable): string | null {
+  for (const [type, share] of Object.entries(table)) {
+    if (!share) continue;
+    const parts = [share.boss, share.moss, share.reserve];
+    if (parts.some((p) => !Number.isFinite(p) || p < 0)) {
+      return `${type} 分成比例无效: ${JSON.stringify(share)}`;
+    }
+    const total = parts.reduce((a, b) => a + b, 0);
+    if (Math.abs(total - 100) > 1e-9) {
+      return `${type} 分成比例之和必须为 100，当前 ${total}`;
+    }
+  }
+  return null;
+}
+
+export function formatMoney(m: Money): string {
+  return `${m.tokens.toLocaleString()} tokens / $${m.usd.toFixed(4)}`;
+}
+
+export function formatShareTable(table: ShareTable): string[] {
+  return Object.entries(table)
+    .filter(([, share]) => share)
+    .map(([type, s]) => `  ${type}: BOSS ${s!.boss}% / MOSS ${s!.moss}% / 储备 ${s!.reserve}%`);
+}
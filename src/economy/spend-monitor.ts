@@ -0,0 +1,344 @@
+/**
+ * Spend Monitor — 消耗异常检测 + 熔断
+ *
+ * 失控循环几分钟就能烧掉几十万 token，等生存等级掉下来才发现已经晚了。
+ * llm_output 每次记账后把加权 token 喂进来，按分钟 / 小时分桶：
+ * - 突增：最近 windowMinutes 的每分钟消耗 > max(基线 × spikeFactor, minTokensPerMinute)
+ *   基线 = 过去 24 个整小时消耗的中位数 / 60（中位数不会被一次突增带偏），启动时用流水回填
+ * - 会话异常：窗口内单个会话消耗 > max(其他会话中位数 × sessionOutlierFactor, sessionMinTokens)
+ *
+ * 检测到异常时由 spend-anomaly 心跳 task 紧急唤醒并通知 BOSS。
+ * 开启 circuitBreaker 时同时熔断：非 BOSS 会话一律不得运行 LLM / 调用工具，
+ * 直到 BOSS 用 `/moss breaker reset` 确认。熔断状态落盘（data/breaker.json），重启不丢。
+ */
+
+import { join } from "path";
+import { readJsonFile, writeFileAtomic } from "./persistence.js";
+import type { LedgerEntry } from "./tracker.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface SpendAnomalyConfig {
+  enabled: boolean;
+  /** Rolling window the current rate is measured over */
+  windowMinutes: number;
+  /** Spike = window rate above baseline × this */
+  spikeFactor: number;
+  /** Rates below this (tokens/min) never count as a spike */
+  minTokensPerMinute: number;
+  /** Session outlier = window spend above the other sessions' median × this */
+  sessionOutlierFactor: number;
+  /** Sessions below this (tokens per window) are never outliers */
+  sessionMinTokens: number;
+  /** Trip the circuit breaker on anomaly */
+  circuitBreaker: boolean;
+}
+
+export interface SpendAnomaly {
+  kind: "spike" | "session";
+  at: string;
+  /** Tokens per minute over the window */
+  ratePerMinute: number;
+  baselinePerMinute: number;
+  /** Heaviest session / model in the window */
+  sessionId?: string;
+  sessionTokens?: number;
+  model?: string;
+  modelTokens?: number;
+}
+
+export interface BreakerState {
+  trippedAt: string;
+  anomaly: SpendAnomaly;
+}
+
+interface Bucket {
+  total: number;
+  bySession: Map<string, number>;
+  byModel: Map<string, number>;
+}
+
+export const DEFAULT_SPEND_ANOMALY: SpendAnomalyConfig = {
+  enabled: true,
+  windowMinutes: 5,
+  spikeFactor: 5,
+  minTokensPerMinute: 20_000,
+  sessionOutlierFactor: 5,
+  sessionMinTokens: 100_000,
+  circuitBreaker: false,
+};
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 3_600_000;
+/** Completed hours the baseline is learned from */
+const BASELINE_HOURS = 24;
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function heaviest(map: Map<string, number>): [string, number] | undefined {
+  let top: [string, number] | undefined;
+  for (const entry of map) {
+    if (!top || entry[1] > top[1]) top = entry;
+  }
+  return top;
+}
+
+function addTo(map: Map<string, number>, key: string, tokens: number): void {
+  map.set(key, (map.get(key) ?? 0) + tokens);
+}
+
+// ─── Spend Monitor ──────────────────────────────────────────
+
+export class SpendMonitor {
+  private static instance: SpendMonitor | null = null;
+
+  private config: SpendAnomalyConfig;
+  private filePath: string;
+  /** Per-minute buckets keyed by epoch minute (last windowMinutes kept) */
+  private minutes = new Map<number, Bucket>();
+  /** Per-hour totals keyed by epoch hour (last BASELINE_HOURS + 1 kept) */
+  private hours = new Map<number, number>();
+  private startedAt = Date.now();
+  private breaker: BreakerState | null = null;
+
+  constructor(
+    dataDir: string,
+    private logger: any,
+    config?: Partial<SpendAnomalyConfig>,
+  ) {
+    this.config = { ...DEFAULT_SPEND_ANOMALY, ...config };
+    this.filePath = join(dataDir, "breaker.json");
+  }
+
+  static getInstance(): SpendMonitor | null {
+    return SpendMonitor.instance;
+  }
+
+  static setInstance(monitor: SpendMonitor | null): void {
+    SpendMonitor.instance = monitor;
+  }
+
+  getConfig(): SpendAnomalyConfig {
+    return this.config;
+  }
+
+  // ── Persistence ──
+
+  async load(): Promise<void> {
+    try {
+      this.breaker = await readJsonFile<BreakerState>(this.filePath);
+    } catch (err) {
+      // Stay tripped rather than silently reopening (BOSS sessions are never blocked)
+      this.logger.error(`[MOSS Spend] breaker.json unreadable, treating breaker as tripped: ${err}`);
+      this.breaker = {
+        trippedAt: new Date().toISOString(),
+        anomaly: { kind: "spike", at: new Date().toISOString(), ratePerMinute: 0, baselinePerMinute: 0 },
+      };
+    }
+    if (this.breaker) {
+      this.logger.warn(`[MOSS Spend] ⚡ Circuit breaker still tripped since ${this.breaker.trippedAt}`);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    await writeFileAtomic(this.filePath, JSON.stringify(this.breaker, null, 2)).catch((err) => {
+      this.logger.error(`[MOSS Spend] Failed to persist breaker state: ${err}`);
+    });
+  }
+
+  // ── Recording ──
+
+  /**
+   * Back-fill from journal entries since `since` (baseline survives restarts).
+   */
+  hydrate(entries: LedgerEntry[], since: number): void {
+    this.startedAt = Math.min(this.startedAt, since);
+    for (const e of entries) {
+      if (e.type !== "llm_inference" || e.direction !== "expense") continue;
+      this.record(
+        { tokens: e.tokens, sessionId: e.meta?.sessionId as string, model: e.meta?.model as string },
+        Date.parse(e.timestamp),
+      );
+    }
+  }
+
+  record(spend: { tokens: number; sessionId?: string; model?: string }, at = Date.now()): void {
+    if (spend.tokens <= 0) return;
+
+    const minute = Math.floor(at / MINUTE_MS);
+    let bucket = this.minutes.get(minute);
+    if (!bucket) {
+      bucket = { total: 0, bySession: new Map(), byModel: new Map() };
+      this.minutes.set(minute, bucket);
+    }
+    bucket.total += spend.tokens;
+    addTo(bucket.bySession, spend.sessionId ?? "(none)", spend.tokens);
+    addTo(bucket.byModel, spend.model ?? "(unknown)", spend.tokens);
+
+    const hour = Math.floor(at / HOUR_MS);
+    this.hours.set(hour, (this.hours.get(hour) ?? 0) + spend.tokens);
+
+    this.prune(at);
+  }
+
+  private prune(now: number): void {
+    const oldestMinute = Math.floor(now / MINUTE_MS) - this.config.windowMinutes;
+    for (const key of this.minutes.keys()) {
+      if (key <= oldestMinute) this.minutes.delete(key);
+    }
+    const oldestHour = Math.floor(now / HOUR_MS) - BASELINE_HOURS - 1;
+    for (const key of this.hours.keys()) {
+      if (key <= oldestHour) this.hours.delete(key);
+    }
+  }
+
+  // ── Detection ──
+
+  /**
+   * Median tokens/minute over the completed hours we have observed.
+   */
+  baselinePerMinute(now = Date.now()): number {
+    const current = Math.floor(now / HOUR_MS);
+    const first = Math.max(current - BASELINE_HOURS, Math.floor(this.startedAt / HOUR_MS));
+    const totals: number[] = [];
+    for (let h = first; h < current; h++) totals.push(this.hours.get(h) ?? 0);
+    return median(totals) / 60;
+  }
+
+  private window(now: number): Bucket {
+    this.prune(now);
+    const merged: Bucket = { total: 0, bySession: new Map(), byModel: new Map() };
+    for (const bucket of this.minutes.values()) {
+      merged.total += bucket.total;
+      for (const [k, v] of bucket.bySession) addTo(merged.bySession, k, v);
+      for (const [k, v] of bucket.byModel) addTo(merged.byModel, k, v);
+    }
+    return merged;
+  }
+
+  /**
+   * Check the current window. Returns the anomaly, or null when spend looks normal.
+   */
+  detect(now = Date.now()): SpendAnomaly | null {
+    const c = this.config;
+    const w = this.window(now);
+    const ratePerMinute = w.total / c.windowMinutes;
+    const baselinePerMinute = this.baselinePerMinute(now);
+
+    const [sessionId, sessionTokens] = heaviest(w.bySession) ?? [];
+    const [model, modelTokens] = heaviest(w.byModel) ?? [];
+    const anomaly = (kind: SpendAnomaly["kind"]): SpendAnomaly => ({
+      kind,
+      at: new Date(now).toISOString(),
+      ratePerMinute: Math.round(ratePerMinute),
+      baselinePerMinute: Math.round(baselinePerMinute),
+      sessionId,
+      sessionTokens,
+      model,
+      modelTokens,
+    });
+
+    if (ratePerMinute > Math.max(baselinePerMinute * c.spikeFactor, c.minTokensPerMinute)) {
+      return anomaly("spike");
+    }
+
+    if (sessionId !== undefined && sessionTokens !== undefined) {
+      const others = [...w.bySession].filter(([k]) => k !== sessionId).map(([, v]) => v);
+      if (sessionTokens > Math.max(median(others) * c.sessionOutlierFactor, c.sessionMinTokens)) {
+        return anomaly("session");
+      }
+    }
+    return null;
+  }
+
+  // ── Circuit breaker ──
+
+  getBreaker(): BreakerState | null {
+    return this.breaker;
+  }
+
+  isTripped(): boolean {
+    return this.breaker !== null;
+  }
+
+  /**
+   * With circuitBreaker on, trip as soon as a recorded call makes spend anomalous —
+   * the runaway session is then blocked at its next LLM/tool call, not a heartbeat later.
+   * Returns the anomaly when this call tripped the breaker.
+   */
+  async tripIfAnomalous(now = Date.now()): Promise<SpendAnomaly | null> {
+    if (!this.config.enabled || !this.config.circuitBreaker || this.breaker) return null;
+    const anomaly = this.detect(now);
+    if (!anomaly) return null;
+    await this.trip(anomaly);
+    return anomaly;
+  }
+
+  async trip(anomaly: SpendAnomaly): Promise<void> {
+    if (this.breaker) return;
+    this.breaker = { trippedAt: new Date().toISOString(), anomaly };
+    this.logger.warn(`[MOSS Spend] ⚡ Circuit breaker tripped: ${formatAnomaly(anomaly)}`);
+    await this.persist();
+  }
+
+  /**
+   * BOSS acknowledgement. Returns false when the breaker was not tripped.
+   */
+  async reset(): Promise<boolean> {
+    if (!this.breaker) return false;
+    this.breaker = null;
+    // The acknowledged spike is still in the window; start it over or the next call re-trips
+    this.minutes.clear();
+    this.logger.info("[MOSS Spend] Circuit breaker reset by BOSS");
+    await this.persist();
+    return true;
+  }
+
+  // ── Report ──
+
+  getReport(now = Date.now()): string {
+    const c = this.config;
+    const w = this.window(now);
+    const [sessionId, sessionTokens] = heaviest(w.bySession) ?? [];
+    const lines = [
+      `⚡ 消耗监控`,
+      ``,
+      `最近 ${c.windowMinutes} 分钟: ${w.total.toLocaleString()} tokens（${Math.round(w.total / c.windowMinutes).toLocaleString()}/分钟）`,
+      `基线: ${Math.round(this.baselinePerMinute(now)).toLocaleString()}/分钟（过去 ${BASELINE_HOURS} 小时中位数）`,
+      `突增阈值: 基线 × ${c.spikeFactor}，且不低于 ${c.minTokensPerMinute.toLocaleString()}/分钟`,
+    ];
+    if (sessionId !== undefined) lines.push(`窗口内最耗会话: ${sessionId}（${sessionTokens!.toLocaleString()} tokens）`);
+
+    lines.push(``);
+    if (this.breaker) {
+      lines.push(
+        `🔴 熔断中（${this.breaker.trippedAt}）: ${formatAnomaly(this.breaker.anomaly)}`,
+        `非 BOSS 会话的 LLM 调用已被拦截。确认后用 /moss breaker reset 解除`,
+      );
+    } else {
+      lines.push(`🟢 熔断器: ${c.circuitBreaker ? "正常（异常时自动熔断）" : "未启用"}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+// ─── Formatting ─────────────────────────────────────────────
+
+export function formatAnomaly(a: SpendAnomaly): string {
+  const culprit = [
+    a.sessionId !== undefined ? `会话 ${a.sessionId}（${(a.sessionTokens ?? 0).toLocaleString()} tokens）` : "",
+    a.model !== undefined ? `模型 ${a.model}（${(a.modelTokens ?? 0).toLocaleString()} tokens）` : "",
+  ].filter(Boolean);
+  const what =
+    a.kind === "spike"
+      ? `消耗突增 ${a.ratePerMinute.toLocaleString()}/分钟（基线 ${a.baselinePerMinute.toLocaleString()}/分钟）`
+      : `单会话消耗异常`;
+  return culprit.length > 0 ? `${what}，主要来自 ${culprit.join("、")}` : what;
+}
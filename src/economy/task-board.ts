@@ -0,0 +1,86 @@
+/**
+ * Task Board — BOSS 任务板（悬赏 + 完成审批）
+ *
+ * 对标自主计划的「工资」标准：BOSS 发布任务（按工资档位或直接给悬赏），
+ * MOSS 通过工具认领、提交完成证据，BOSS `/moss tasks approve <id>` 后
+ * 自动记一笔 boss_task_reward。工资标准只能由 BOSS 通过配置修改。
+ *
+ *   open → claimed → submitted → approved
+ *                       ↓ reject（退回返工）
+ *                    claimed
+ *
+ * 日常维护（maintenance）是每日任务：审批后重新开放，每个记账日只能领一次工资。
+ */
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type RateCardTier = "simple" | "medium" | "complex" | "research" | "maintenance";
+export type RateCard = Record<RateCardTier, number>;
+
+export type BoardTaskStatus = "open" | "claimed" | "submitted" | "approved" | "cancelled";
+
+export interface BoardTask {
+  id: string;
+  createdAt: string;
+  title: string;
+  /** Rate-card tier, absent for explicit bounties */
+  tier?: RateCardTier;
+  /** Reward in tokens */
+  bounty: number;
+  status: BoardTaskStatus;
+  claimedAt?: string;
+  submittedAt?: string;
+  /** What MOSS delivered (links, file paths, summary) */
+  evidence?: string;
+  decidedAt?: string;
+  /** BOSS's rejection / cancellation reason */
+  note?: string;
+  /** Ledger entry of the last payout */
+  rewardTxId?: string;
+  /** Accounting date of the last payout (maintenance: one per day) */
+  lastPaidDate?: string;
+}
+
+// ─── Defaults ───────────────────────────────────────────────
+
+export const DEFAULT_RATE_CARD: RateCard = {
+  simple: 5_000,
+  medium: 20_000,
+  complex: 50_000,
+  research: 100_000,
+  maintenance: 10_000,
+};
+
+export const RATE_CARD_LABELS: Record<RateCardTier, string> = {
+  simple: "简单查询/操作",
+  medium: "中等任务",
+  complex: "复杂工程",
+  research: "深度研究",
+  maintenance: "日常维护（每天）",
+};
+
+export function isRateCardTier(value: string): value is RateCardTier {
+  return Object.hasOwn(DEFAULT_RATE_CARD, value);
+}
+
+// ─── Formatting ─────────────────────────────────────────────
+
+export function formatBoardTask(t: BoardTask): string {
+  const icon: Record<BoardTaskStatus, string> = {
+    open: "📌",
+    claimed: "🔨",
+    submitted: "📤",
+    approved: "✅",
+    cancelled: "🚫",
+  };
+  const tier = t.tier ? ` ${t.tier}` : "";
+  const evidence = t.status === "submitted" && t.evidence ? `\n      证据: ${t.evidence}` : "";
+  const note = t.note ? ` (${t.note})` : "";
+  return `${icon[t.status]} ${t.id}${tier} ${t.bounty.toLocaleString()} tokens — ${t.title}${note}${evidence}`;
+}
+
+export function formatRateCard(card: RateCard): string[] {
+  return (Object.keys(card) as RateCardTier[]).map(
+    (tier) => `  ${tier}: ${card[tier].toLocaleString()} tokens — ${RATE_CARD_LABELS[tier]}`,
+  );
+}
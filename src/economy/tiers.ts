@@ -0,0 +1,85 @@
+/**
+ * Survival Tiers — 阈值、滞回与等级变迁记录
+ *
+ * 对标 Conway: survival/monitor.ts
+ * - 降级立即生效：余额跌破当前等级阈值就降
+ * - 升级需越过滞回带：余额 ≥ 阈值 × (1 + hysteresisPct%) 才升
+ *   → 余额贴着边界来回波动时不会反复横跳
+ * - 每次变迁持久化（时间、前后等级、余额、导致变迁的交易），
+ *   economy-check 按序号消费，tick 之间的变迁不会丢
+ */
+
+import { SURVIVAL_TIER_ORDER, type SurvivalTier } from "./tracker.js";
+import { DEFAULT_TIME_ZONE, localTime } from "./timezone.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface TierTransition {
+  /** Monotonic sequence number (consumers keep a cursor) */
+  seq: number;
+  at: string;
+  from: SurvivalTier;
+  to: SurvivalTier;
+  balance: number;
+  /** Ledger entry id, or a reason like "threshold_change" / "rebuild" */
+  cause: string;
+}
+
+// ─── Tier math ──────────────────────────────────────────────
+
+export function tierRank(tier: SurvivalTier): number {
+  return SURVIVAL_TIER_ORDER.indexOf(tier);
+}
+
+export function isTierWorse(a: SurvivalTier, b: SurvivalTier): boolean {
+  return tierRank(a) > tierRank(b);
+}
+
+/** Best tier whose threshold × (1 + margin) the balance meets */
+function rawTier(balance: number, thresholds: Record<SurvivalTier, number>, margin: number): SurvivalTier {
+  for (const tier of SURVIVAL_TIER_ORDER.slice(0, -1)) {
+    if (balance >= thresholds[tier] * (1 + margin)) return tier;
+  }
+  return "hibernate";
+}
+
+/**
+ * Compute the tier for a balance, given the current tier (for hysteresis).
+ */
+export function computeTier(
+  balance: number,
+  current: SurvivalTier,
+  thresholds: Record<SurvivalTier, number>,
+  hysteresisPct: number,
+): SurvivalTier {
+  const plain = rawTier(balance, thresholds, 0);
+  if (tierRank(plain) >= tierRank(current)) return plain;
+
+  // Upgrading: must clear the hysteresis band
+  const upgraded = rawTier(balance, thresholds, hysteresisPct / 100);
+  return tierRank(upgraded) < tierRank(current) ? upgraded : current;
+}
+
+/**
+ * Thresholds must be strictly descending from rich to danger.
+ * Returns an error message, or null if valid.
+ */
+export function validateThresholds(thresholds: Record<SurvivalTier, number>): string | null {
+  const order = SURVIVAL_TIER_ORDER.slice(0, -1);
+  for (const tier of order) {
+    if (!Number.isFinite(thresholds[tier]) || thresholds[tier] < 0) {
+      return `${tier} 阈值无效: ${thresholds[tier]}`;
+    }
+  }
+  for (let i = 0; i < order.length - 1; i++) {
+    if (thresholds[order[i]] <= thresholds[order[i + 1]]) {
+      return `阈值必须递减: ${order[i]}(${thresholds[order[i]]}) 应大于 ${order[i + 1]}(${thresholds[order[i + 1]]})`;
+    }
+  }
+  return null;
+}
+
+export function formatTierTransition(t: TierTransition, timeZone = DEFAULT_TIME_ZONE): string {
+  const arrow = isTierWorse(t.to, t.from) ? "📉" : "📈";
+  return `${arrow} ${localTime(t.at, timeZone)} ${t.from} → ${t.to} (余额 ${t.balance.toLocaleString()}, ${t.cause})`;
+}
@@ -0,0 +1,91 @@
+/**
+ * Accounting Timezone — 记账时区
+ *
+ * 「今天」按 BOSS 所在时区算，而不是 UTC：
+ * 日统计、每日 x402 限额、预算 envelope、决策日志分文件、报表时间都用同一个时区。
+ * 只依赖 Intl（IANA 时区名，如 "Asia/Shanghai"），夏令时由 Intl 处理。
+ *
+ * 时间戳本身（流水、决策）始终存 UTC ISO，只有日期划分和显示用本地时间。
+ */
+
+// ─── Validation ─────────────────────────────────────────────
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ─── Local wall time ────────────────────────────────────────
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, f);
+  }
+  return f;
+}
+
+function wallParts(ms: number, timeZone: string): Record<string, string> {
+  const parts: Record<string, string> = {};
+  for (const p of formatter(timeZone).formatToParts(new Date(ms))) parts[p.type] = p.value;
+  return parts;
+}
+
+/** Local wall time minus UTC at the given instant */
+function offsetMs(ms: number, timeZone: string): number {
+  const p = wallParts(ms, timeZone);
+  const wall = Date.UTC(+p.year, +p.month - 1, +p.day, +p.hour, +p.minute, +p.second);
+  return wall - Math.floor(ms / 1000) * 1000;
+}
+
+/** YYYY-MM-DD in the accounting timezone */
+export function localDate(ms: number, timeZone: string): string {
+  const p = wallParts(ms, timeZone);
+  return `${p.year}-${p.month}-${p.day}`;
+}
+
+/** "MM-DD HH:mm" in the accounting timezone, for reports */
+export function localTime(iso: string, timeZone: string): string {
+  const ms = Date.parse(iso);
+  if (!Number.isFinite(ms)) return iso.slice(5, 16);
+  const p = wallParts(ms, timeZone);
+  return `${p.month}-${p.day} ${p.hour}:${p.minute}`;
+}
+
+/** Epoch ms of local wall time `hour:minute` on `date` (YYYY-MM-DD) */
+export function localWallTimeMs(date: string, hour: number, minute: number, timeZone: string): number {
+  const [y, m, d] = date.split("-").map(Number);
+  const guess = Date.UTC(y, m - 1, d, hour, minute);
+  const ms = guess - offsetMs(guess, timeZone);
+  // Offset may differ at the real instant (DST transition day)
+  return guess - offsetMs(ms, timeZone);
+}
+
+/** Epoch ms of local midnight starting `date` (YYYY-MM-DD) */
+export function dayStartMs(date: string, timeZone: string): number {
+  return localWallTimeMs(date, 0, 0, timeZone);
+}
+
+/** Epoch ms of the local midnight ending `date` */
+export function dayEndMs(date: string, timeZone: string): number {
+  const next = new Date(Date.parse(`${date}T00:00:00Z`) + 86_400_000).toISOString().slice(0, 10);
+  return dayStartMs(next, timeZone);
+}
@@ -5,20 +5,155 @@
  * 追踪 token 消耗、收入、生存等级。
  */
 
-import { readFile, writeFile, mkdir } from "fs/promises";
-import { join } from "path";
+import { mkdir, readFile } from "fs/promises";
+import { basename, isAbsolute, join, relative, resolve, sep } from "path";
+import { PricingTable, type PricingConfig, type TokenUsage } from "./pricing.js";
+import {
+  checkSpendLimits,
+  formatPaymentRequest,
+  type PaymentRequest,
+} from "./payments.js";
+import {
+  formatIncomeClaim,
+  verifyRevenue,
+  type ClaimType,
+  type IncomeClaim,
+} from "./income-claims.js";
+import {
+  LedgerJournal,
+  applyEntry,
+  balancesFromState,
+  emptyBalances,
+  normalizeLedgerEntry,
+  type JournalAudit,
+} from "./journal.js";
+import {
+  BackupRotator,
+  StateFileError,
+  quarantineFile,
+  readJsonFile,
+  writeFileAtomic,
+} from "./persistence.js";
+import { CURRENT_STATE_VERSION, migrateState } from "./migrations.js";
+import {
+  DEFAULT_BUDGET_ENVELOPES,
+  OTHER_ENVELOPE,
+  envelopeStatus,
+  formatEnvelopeStatus,
+  resolveEnvelope,
+  type BudgetEnvelope,
+  type EnvelopeStatus,
+} from "./budgets.js";
+import {
+  DEFAULT_DRIFT_TOLERANCE,
+  formatReconcileResult,
+  listBalanceProviders,
+  providerUnitError,
+  type BalanceAccount,
+  type DriftTolerance,
+  type ReconcileResult,
+} from "./balance-providers.js";
+import {
+  DEFAULT_TIME_ZONE,
+  dayEndMs,
+  dayStartMs,
+  isValidTimeZone,
+  localDate,
+  localTime,
+} from "./timezone.js";
+import {
+  HISTORY_RETENTION_DAYS,
+  formatPeriodReport,
+  formatTrendLine,
+  previousPeriodKey,
+  rollup,
+  type DailyStats,
+  type HistoryPeriod,
+  type PeriodStats,
+} from "./history.js";
+import {
+  exportLedger,
+  parseImport,
+  type ExportFormat,
+  type ExportKind,
+} from "./export.js";
+import {
+  formatLedgerEntry,
+  queryRange,
+  runLedgerQuery,
+  validateLedgerQuery,
+  type LedgerQuery,
+  type LedgerQueryResult,
+} from "./ledger-query.js";
+import {
+  DEFAULT_REVENUE_SHARES,
+  emptyMoney,
+  formatMoney,
+  formatShareTable,
+  mossShareOf,
+  splitRevenue,
+  validateShareTable,
+  type Money,
+  type RevenueSplit,
+  type ShareTable,
+} from "./revenue-share.js";
+import {
+  computeTier,
+  formatTierTransition,
+  validateThresholds,
+  type TierTransition,
+} from "./tiers.js";
+import {
+  BurnRateTracker,
+  BURN_WINDOWS,
+  forecastRunway,
+  formatRunway,
+  type RunwayForecast,
+} from "./forecast.js";
+import {
+  DEFAULT_RATE_CARD,
+  formatBoardTask,
+  formatRateCard,
+  type BoardTask,
+  type BoardTaskStatus,
+  type RateCard,
+  type RateCardTier,
+} from "./task-board.js";
+import {
+  emptyBreakdown,
+  pruneSessions,
+  recordUsage,
+  summarizeUsage,
+  formatUsageSummary,
+  type UsageBreakdown,
+  type UsageScope,
+  type UsageSummary,
+} from "./usage.js";
 
 // ─── Types ──────────────────────────────────────────────────
 
 export type SurvivalTier = "rich" | "normal" | "tight" | "danger" | "hibernate";
 
+/** Best → worst */
+export const SURVIVAL_TIER_ORDER: SurvivalTier[] = ["rich", "normal", "tight", "danger", "hibernate"];
+
 export interface LedgerEntry {
   id: string;
   timestamp: string;
-  type: "boss_task_reward" | "x402_revenue" | "llm_inference" | "x402_payment" | "manual_adjustment";
+  type:
+    | "boss_task_reward"
+    | "x402_revenue"
+    | "middleman_margin"
+    | "subagent_income"
+    | "llm_inference"
+    | "x402_payment"
+    | "dividend_payout"
+    | "manual_adjustment";
   direction: "income" | "expense";
-  amount: number;
-  unit: "tokens" | "usd";
+  /** Token amount (gross for split income); 0 when the entry is USD-only */
+  tokens: number;
+  /** USD amount; 0 when the entry is token-only */
+  usd: number;
   description: string;
   meta?: Record<string, unknown>;
 }
@@ -39,6 +174,9 @@ export interface EconomyState {
     lifetimeTokensSpent: number;
     lifetimeUsdcEarned: number;
     lifetimeUsdcSpent: number;
+    lifetimeLlmCostUsd: number;
+    /** Lifetime token components per model / provider */
+    usage: UsageBreakdown;
   };
 
   today: {
@@ -47,13 +185,56 @@ export interface EconomyState {
     tokensSpent: number;
     usdcEarned: number;
     usdcSpent: number;
+    /** USD paid via x402 (what the daily x402 limit counts) */
+    x402Usd: number;
     llmCalls: number;
+    llmCostUsd: number;
+    /** Weighted tokens spent per budget envelope */
+    envelopeTokens: Record<string, number>;
+    /** Milliseconds spent in each survival tier */
+    tierMs: Partial<Record<SurvivalTier, number>>;
+    /** Token components per model / provider / session */
+    usage: UsageBreakdown;
+  };
+
+  /** Archived `today` blocks, oldest first (bounded) */
+  history: EconomyState["today"][];
+  /** Time tier durations have been accounted up to */
+  tierClockAt: string;
+
+  /** Sub-accounts besides MOSS's operating balance (see revenue-share.ts) */
+  accounts: {
+    /** Dividends owed to BOSS, not yet paid out */
+    bossPayable: Money;
+    reserve: Money;
+    dividendsAccrued: Money;
+    dividendsPaid: Money;
   };
 
-  ledger: LedgerEntry[];
+  /** x402 payment authorizations (approved, pending BOSS approval, rejected) */
+  payments: PaymentRequest[];
+
+  /** Agent-reported income awaiting verification or BOSS confirmation */
+  incomeClaims: IncomeClaim[];
+  /**
+   * sourceRefs of every credited claim — survives trimClaims, so old receipts can't be replayed.
+   * Absent in older snapshots; seeded from the journal on load.
+   */
+  usedSourceRefs?: string[];
+
+  /** BOSS task board (see task-board.ts) */
+  taskBoard: BoardTask[];
+
+  /** Tier transitions, oldest first (bounded) */
+  tierHistory: TierTransition[];
+  nextTierSeq: number;
 
   config: {
     survivalThresholds: Record<SurvivalTier, number>;
+    /** Upgrade only when balance ≥ threshold × (1 + pct%) */
+    tierHysteresisPct: number;
+    /** Accounting timezone the `today` block was last rolled in */
+    timeZone: string;
     spendLimits: {
       maxSingleX402Usd: number;
       maxDailyX402Usd: number;
@@ -63,12 +244,12 @@ export interface EconomyState {
 
 // ─── Default State ──────────────────────────────────────────
 
-function createDefaultState(): EconomyState {
+function createDefaultState(timeZone = DEFAULT_TIME_ZONE): EconomyState {
   const now = new Date().toISOString();
-  const today = now.slice(0, 10);
+  const today = localDate(Date.now(), timeZone);
 
   return {
-    version: 1,
+    version: CURRENT_STATE_VERSION,
     lastUpdated: now,
 
     balance: {
@@ -83,6 +264,8 @@ function createDefaultState(): EconomyState {
       lifetimeTokensSpent: 0,
       lifetimeUsdcEarned: 0,
       lifetimeUsdcSpent: 0,
+      lifetimeLlmCostUsd: 0,
+      usage: emptyBreakdown(),
     },
 
     today: {
@@ -91,10 +274,32 @@ function createDefaultState(): EconomyState {
       tokensSpent: 0,
       usdcEarned: 0,
       usdcSpent: 0,
+      x402Usd: 0,
       llmCalls: 0,
+      llmCostUsd: 0,
+      envelopeTokens: {},
+      tierMs: {},
+      usage: emptyBreakdown(true),
     },
 
-    ledger: [],
+    history: [],
+    tierClockAt: now,
+
+    accounts: {
+      bossPayable: emptyMoney(),
+      reserve: emptyMoney(),
+      dividendsAccrued: emptyMoney(),
+      dividendsPaid: emptyMoney(),
+    },
+
+    payments: [],
+
+    incomeClaims: [],
+
+    taskBoard: [],
+
+    tierHistory: [],
+    nextTierSeq: 1,
 
     config: {
       survivalThresholds: {
@@ -104,6 +309,8 @@ function createDefaultState(): EconomyState {
         danger: 10_000,
         hibernate: 0,
       },
+      tierHysteresisPct: 5,
+      timeZone,
       spendLimits: {
         maxSingleX402Usd: 0.01,
         maxDailyX402Usd: 0.10,
@@ -112,17 +319,89 @@ function createDefaultState(): EconomyState {
   };
 }
 
+// ─── Helpers ────────────────────────────────────────────────
+
+function dedupeById(entries: LedgerEntry[]): LedgerEntry[] {
+  const seen = new Set<string>();
+  return entries.filter((e) => !seen.has(e.id) && !!seen.add(e.id));
+}
+
+/**
+ * USD an entry should have deducted from usdcBalance that pre-v3 code never did
+ * (negative for a reversed USD expense, which was never added back either).
+ */
+function unappliedUsdSpend(e: LedgerEntry): number {
+  if (e.meta?.kind === "reversal") {
+    const o = e.meta.original as LedgerEntry;
+    return o.direction === "expense" ? -unappliedUsdSpend(o) : 0;
+  }
+  if (e.direction !== "expense" || e.type === "dividend_payout") return 0;
+  if (e.meta?.kind === "opening_balance" || e.meta?.kind === "reconciliation") return 0;
+  return e.usd;
+}
+
 // ─── Tracker ────────────────────────────────────────────────
 
+export interface EconomyTrackerOptions {
+  /** Pricing overrides (merged over DEFAULT_PRICING) */
+  pricing?: Partial<PricingConfig>;
+  /** Threshold overrides from plugin config (applied on every load) */
+  survivalThresholds?: Partial<Record<SurvivalTier, number>>;
+  tierHysteresisPct?: number;
+  /** Budget envelopes (replace DEFAULT_BUDGET_ENVELOPES when given) */
+  budgetEnvelopes?: BudgetEnvelope[];
+  /** For matching `@boss` envelope patterns */
+  bossChatId?: string;
+  /** Revenue share overrides per income type (merged over DEFAULT_REVENUE_SHARES) */
+  revenueShares?: ShareTable;
+  /** IANA timezone for day boundaries and report times (default UTC) */
+  timeZone?: string;
+  /** Balance drift above this raises an alert (merged over DEFAULT_DRIFT_TOLERANCE) */
+  driftTolerance?: Partial<DriftTolerance>;
+  /** Task-board wage rates (merged over DEFAULT_RATE_CARD) */
+  rateCard?: Partial<RateCard>;
+}
+
+/** A snapshot file as read from disk and migrated to the current version */
+interface LoadedSnapshot {
+  raw: Record<string, unknown>;
+  state: EconomyState;
+}
+
 export class EconomyTracker {
   private static instance: EconomyTracker | null = null;
   private state: EconomyState;
   private filePath: string;
+  private shares: ShareTable;
+  private rateCard: RateCard;
+  private timeZone: string;
+  /** Last poll time per balance provider */
+  private lastPolled = new Map<string, number>();
+  /** Latest reconciliation per account */
+  private lastReconciled = new Map<BalanceAccount, ReconcileResult>();
+  /** Providers already warned about a unit mismatch */
+  private unitRejected = new Set<string>();
   private dirty = false;
+  private pricing: PricingTable;
+  private journal: LedgerJournal;
+  /** Most recent entries (in memory only; the journal has full history) */
+  private recentLedger: LedgerEntry[] = [];
+  /** Entries not yet flushed to the journal */
+  private unflushed: LedgerEntry[] = [];
+  private backups: BackupRotator;
+  /** Set when load() had to recover from a corrupt snapshot */
+  private recoveredFrom: string | null = null;
+  private burn = new BurnRateTracker();
 
-  constructor(private dataDir: string, private logger: any) {
+  constructor(private dataDir: string, private logger: any, private options: EconomyTrackerOptions = {}) {
     this.filePath = join(dataDir, "economy.json");
-    this.state = createDefaultState();
+    this.timeZone = this.resolveTimeZone(options.timeZone);
+    this.state = createDefaultState(this.timeZone);
+    this.pricing = new PricingTable(options.pricing);
+    this.journal = new LedgerJournal(dataDir);
+    this.backups = new BackupRotator(join(dataDir, "backups"));
+    this.shares = this.resolveShares(options.revenueShares);
+    this.rateCard = { ...DEFAULT_RATE_CARD, ...options.rateCard };
   }
 
   // ── Singleton (for Hook and Command access) ──
@@ -137,43 +416,338 @@ export class EconomyTracker {
 
   // ── Persistence ──
 
+  /**
+   * Load the snapshot.
+   *
+   * - 文件不存在 → 全新状态（若有流水则按流水重建）
+   * - 文件损坏/结构无效 → 隔离坏文件，依次尝试备份，再用流水校正余额
+   * - 没有备份也没有流水 → 抛 StateFileError，拒绝以空状态启动
+   *
+   * 只有快照本身读不了/解析失败/结构无效（StateFileError）才走隔离恢复；
+   * 流水 I/O 等其他错误原样抛出，不能拿它当理由隔离一个好好的 economy.json。
+   * 版本高于当前支持（StateVersionError）同样原样抛出：文件是好的，只是插件太旧。
+   */
   async load(): Promise<void> {
+    let snapshot: LoadedSnapshot | null = null;
+    let recovered = false;
     try {
-      const raw = await readFile(this.filePath, "utf-8");
-      const loaded = JSON.parse(raw) as EconomyState;
-      this.state = { ...createDefaultState(), ...loaded };
-      this.rolloverDay();
-      this.logger.info(`[MOSS Economy] Loaded: ${this.state.balance.tokenCredits} tokens, tier=${this.state.balance.survivalTier}`);
-    } catch {
-      this.logger.info("[MOSS Economy] No existing state, starting fresh");
-      this.state = createDefaultState();
+      snapshot = await this.readSnapshot(this.filePath);
+    } catch (err) {
+      if (!(err instanceof StateFileError)) throw err;
+      await this.recover(err);
+      recovered = true;
+    }
+
+    if (recovered) {
+      // state already restored by recover()
+    } else if (snapshot) {
+      await this.applySnapshot(snapshot);
+    } else {
+      this.state = createDefaultState(this.timeZone);
+      if (await this.journal.isEmpty()) {
+        this.logger.info("[MOSS Economy] No existing state, starting fresh");
+      } else {
+        this.logger.warn("[MOSS Economy] economy.json missing, rebuilding from journal");
+        await this.rebuildFromJournal();
+      }
+    }
+
+    if (!this.state.usedSourceRefs) await this.seedUsedSourceRefs();
+    this.applyTierConfig();
+    this.applyTimeZone();
+    this.rolloverDay();
+    this.recentLedger = [...(await this.journal.tail(500)), ...this.unflushed].slice(-500);
+    await this.hydrateBurnRate();
+    this.logger.info(`[MOSS Economy] Loaded: ${this.state.balance.tokenCredits} tokens, tier=${this.state.balance.survivalTier}`);
+  }
+
+  /**
+   * Read, validate and migrate a snapshot file. Null if missing; throws StateFileError
+   * when unusable, StateVersionError when written by a newer version.
+   */
+  private async readSnapshot(path: string): Promise<LoadedSnapshot | null> {
+    const raw = await readJsonFile<Record<string, unknown>>(path);
+    if (raw === null) return null;
+    return { raw, state: migrateState(raw, createDefaultState(), path, this.logger) };
+  }
+
+  /**
+   * Adopt a parsed snapshot and run the journal-side migrations.
+   */
+  private async applySnapshot({ raw, state }: LoadedSnapshot): Promise<void> {
+    const fromVersion = Number.isInteger(raw.version) ? (raw.version as number) : 1;
+    const legacyLedger = Array.isArray(raw.ledger) ? raw.ledger.map(normalizeLedgerEntry) : [];
+    this.state = state;
+    await this.migrateToJournal(legacyLedger);
+    if (fromVersion < 3) await this.repairUsdcFromJournal();
+    if (!Number.isFinite((raw.today as Record<string, unknown> | undefined)?.x402Usd)) {
+      await this.seedX402Today();
+    }
+  }
+
+  /**
+   * Snapshots from before today.x402Usd existed: recount today's x402 payments.
+   */
+  private async seedX402Today(): Promise<void> {
+    const { date } = this.state.today;
+    const from = new Date(dayStartMs(date, this.timeZone)).toISOString();
+    let usd = 0;
+    for (const e of [...(await this.journal.read({ from })), ...this.unflushed]) {
+      const reversal = e.meta?.kind === "reversal";
+      const o = reversal ? (e.meta!.original as LedgerEntry) : e;
+      // Like unapply(): a reversal only counts against today when the payment was today
+      const today = [e, o].every((x) => localDate(Date.parse(x.timestamp), this.timeZone) === date);
+      if (today && o.type === "x402_payment" && o.direction === "expense") usd += reversal ? -o.usd : o.usd;
+    }
+    this.state.today.x402Usd = usd;
+  }
+
+  /**
+   * Collect sourceRefs of income already credited (journal + retained claims).
+   */
+  private async seedUsedSourceRefs(): Promise<void> {
+    const refs = new Set<string>();
+    for (const e of [...(await this.journal.read()), ...this.unflushed]) {
+      if (e.direction === "income" && typeof e.meta?.sourceRef === "string") refs.add(e.meta.sourceRef);
+    }
+    for (const c of this.state.incomeClaims) {
+      if (c.status === "confirmed" && c.sourceRef) refs.add(c.sourceRef);
     }
+    this.state.usedSourceRefs = [...refs];
+    this.dirty = true;
+  }
+
+  /**
+   * Before v3, USD expenses (and their reversals) never touched usdcBalance / lifetimeUsdcSpent.
+   *
+   * 重放本身能正确处理 opening_balance 之后的流水，但 opening_balance 快照来自旧状态，
+   * 漏掉了 legacy 条目里的 USD 支出。这里在重放（磁盘 + 未落盘，v1 文件的条目只在 unflushed 里）
+   * 之上补回 legacy 漏记的部分；usdc 对账后余额已是外部真值，之前的漏记不再影响余额。
+   * 修正后写一条新的 opening_balance，之后的重放从修正后的余额起算。
+   */
+  private async repairUsdcFromJournal(): Promise<void> {
+    const entries = dedupeById([...(await this.journal.read()), ...this.unflushed]);
+    if (entries.length === 0) return;
+
+    const replayed = emptyBalances();
+    let missedSpent = 0;
+    let missedBalance = 0;
+    for (const e of entries) {
+      applyEntry(replayed, e);
+      if (e.meta?.kind === "reconciliation" && e.meta.account === "usdc") {
+        missedBalance = 0;
+      } else if (e.meta?.legacy) {
+        const usd = unappliedUsdSpend(e);
+        missedSpent += usd;
+        missedBalance += usd;
+      }
+    }
+    const usdcBalance = replayed.usdcBalance - missedBalance;
+    const lifetimeUsdcSpent = replayed.lifetimeUsdcSpent + missedSpent;
+
+    const b = this.state.balance;
+    const t = this.state.totals;
+    if (b.usdcBalance === usdcBalance && t.lifetimeUsdcSpent === lifetimeUsdcSpent) return;
+
+    this.logger.warn(
+      `[MOSS Economy] Correcting USDC from journal: balance ${b.usdcBalance} → ${usdcBalance}, ` +
+        `spent ${t.lifetimeUsdcSpent} → ${lifetimeUsdcSpent}`,
+    );
+    b.usdcBalance = usdcBalance;
+    t.lifetimeUsdcSpent = lifetimeUsdcSpent;
+    this.dirty = true;
+
+    if (missedSpent !== 0 || missedBalance !== 0) {
+      this.appendLedger({
+        type: "manual_adjustment",
+        direction: "income",
+        tokens: 0,
+        usd: 0,
+        description: "期初余额校正（补记迁移前漏扣的 USD 支出）",
+        meta: { kind: "opening_balance", snapshot: balancesFromState(this.state) },
+      });
+    }
+  }
+
+  /**
+   * Corrupt snapshot: preserve it, restore the newest usable backup,
+   * then let the journal correct balances and totals.
+   */
+  private async recover(err: unknown): Promise<void> {
+    this.logger.error(`[MOSS Economy] ❌ economy.json unusable: ${err}`);
+
+    const moved = await quarantineFile(this.filePath);
+    if (!moved) {
+      throw new StateFileError(
+        `economy.json 无法读取且无法隔离，拒绝启动以免覆盖: ${err}`,
+        this.filePath,
+        err,
+      );
+    }
+    this.logger.error(`[MOSS Economy] Corrupt state preserved at ${moved}`);
+
+    let restoredFrom: string | null = null;
+    for (const backup of await this.backups.list()) {
+      let snapshot: LoadedSnapshot | null;
+      try {
+        snapshot = await this.readSnapshot(backup);
+      } catch (backupErr) {
+        if (!(backupErr instanceof StateFileError)) throw backupErr;
+        this.logger.warn(`[MOSS Economy] Backup unusable: ${backupErr}`);
+        continue;
+      }
+      if (snapshot === null) continue;
+      await this.applySnapshot(snapshot);
+      restoredFrom = backup;
+      break;
+    }
+
+    const journalEmpty = await this.journal.isEmpty();
+    if (!restoredFrom && journalEmpty) {
+      throw new StateFileError(
+        `economy.json 已损坏（已隔离到 ${moved}），且没有可用的备份或流水，拒绝以空状态启动`,
+        this.filePath,
+        err,
+      );
+    }
+
+    if (!restoredFrom) this.state = createDefaultState();
+    if (!journalEmpty) await this.rebuildFromJournal();
+
+    this.recoveredFrom = `${restoredFrom ?? "默认状态"}${journalEmpty ? "" : " + 流水重放"}`;
+    this.dirty = true;
+    this.logger.error(`[MOSS Economy] ⚠️ State recovered from ${this.recoveredFrom}`);
+  }
+
+  /**
+   * Back-fill burn-rate buckets with the last 7 days of journal entries.
+   */
+  private async hydrateBurnRate(): Promise<void> {
+    this.burn = new BurnRateTracker();
+    const first = await this.journal.firstTimestamp();
+    if (first) this.burn.setHistoryStart(Date.parse(first));
+
+    const from = new Date(Date.now() - BURN_WINDOWS["7d"]).toISOString();
+    for (const e of [...(await this.journal.read({ from })), ...this.unflushed]) {
+      this.trackBurn(e);
+    }
+  }
+
+  private trackBurn(e: LedgerEntry): void {
+    if (e.meta?.kind === "reversal") {
+      const o = e.meta.original as LedgerEntry;
+      if (o.type === "dividend_payout" || o.type === "manual_adjustment") return;
+      const tokens = o.direction === "income" ? mossShareOf(o).tokens : o.tokens;
+      this.burn.record(e.timestamp, o.direction, -tokens);
+      return;
+    }
+    // Adjustments, reconciliation and opening balances correct the books — not spending or earning
+    if (e.meta?.legacy || e.type === "manual_adjustment") return;
+    if (e.type === "dividend_payout") return;
+    const tokens = e.direction === "income" ? mossShareOf(e).tokens : e.tokens;
+    this.burn.record(e.timestamp, e.direction, tokens);
+  }
+
+  /**
+   * One-time migration from the bounded in-snapshot ledger.
+   *
+   * 旧 ledger 条目标记 legacy 写入流水（只供审计，不参与重放），
+   * 再写一条 opening_balance，重放从当前快照起算。
+   */
+  private async migrateToJournal(legacyLedger: LedgerEntry[]): Promise<void> {
+    if (!(await this.journal.isEmpty())) return;
+
+    this.unflushed.push(
+      ...legacyLedger.map((e) => ({ ...e, meta: { ...e.meta, legacy: true } })),
+    );
+    this.appendLedger({
+      type: "manual_adjustment",
+      direction: "income",
+      tokens: 0,
+      usd: 0,
+      description: "期初余额（迁移自 economy.json 快照）",
+      meta: { kind: "opening_balance", snapshot: balancesFromState(this.state) },
+    });
+    this.dirty = true;
+    this.logger.info(`[MOSS Economy] Migrating ${legacyLedger.length} legacy ledger entries to journal`);
   }
 
   async save(): Promise<void> {
+    await this.flushJournal();
     if (!this.dirty) return;
     try {
-      await mkdir(this.dataDir, { recursive: true });
       this.state.lastUpdated = new Date().toISOString();
-      await writeFile(this.filePath, JSON.stringify(this.state, null, 2));
+      await writeFileAtomic(this.filePath, JSON.stringify(this.state, null, 2));
       this.dirty = false;
     } catch (err) {
       this.logger.error(`[MOSS Economy] Save failed: ${err}`);
+      return;
     }
+    await this.backups.maybeBackup(this.filePath).catch((err) => {
+      this.logger.warn(`[MOSS Economy] Backup failed: ${err}`);
+    });
   }
 
   // ── Day rollover ──
 
+  private resolveTimeZone(timeZone: string | undefined): string {
+    if (!timeZone || isValidTimeZone(timeZone)) return timeZone ?? DEFAULT_TIME_ZONE;
+    this.logger.error(`[MOSS Economy] Ignoring invalid timeZone config: ${timeZone}`);
+    return DEFAULT_TIME_ZONE;
+  }
+
+  /**
+   * Record a timezone change. The current day is kept (see rolloverDay),
+   * so nothing is archived twice or dropped.
+   */
+  private applyTimeZone(): void {
+    const previous = this.state.config.timeZone;
+    if (previous === this.timeZone) return;
+    this.state.config.timeZone = this.timeZone;
+    this.dirty = true;
+    this.logger.info(
+      `[MOSS Economy] Accounting timezone ${previous} → ${this.timeZone}; days now roll over at local midnight`,
+    );
+  }
+
+  getTimeZone(): string {
+    return this.timeZone;
+  }
+
+  /**
+   * Roll `today` into history once the local date moves past it.
+   *
+   * Only moves forward: right after switching to a timezone that is behind,
+   * the local date can be earlier than the stored day — keep accumulating
+   * into it until the new timezone's next day starts.
+   */
   private rolloverDay(): void {
-    const today = new Date().toISOString().slice(0, 10);
-    if (this.state.today.date !== today) {
+    const today = localDate(Date.now(), this.timeZone);
+    if (today > this.state.today.date) {
+      // Close out the finished day's tier time, then archive it
+      const dayEnd = dayEndMs(this.state.today.date, this.timeZone);
+      this.accrueTierTime(Math.min(Date.now(), dayEnd));
+      pruneSessions(this.state.today.usage);
+      this.state.history.push(this.state.today);
+      if (this.state.history.length > HISTORY_RETENTION_DAYS) {
+        this.state.history = this.state.history.slice(-HISTORY_RETENTION_DAYS);
+      }
+      this.state.tierClockAt = new Date(
+        Math.max(Date.parse(this.state.tierClockAt), dayStartMs(today, this.timeZone)),
+      ).toISOString();
+
       this.state.today = {
         date: today,
         tokensEarned: 0,
         tokensSpent: 0,
         usdcEarned: 0,
         usdcSpent: 0,
+        x402Usd: 0,
         llmCalls: 0,
+        llmCostUsd: 0,
+        envelopeTokens: {},
+        tierMs: {},
+        usage: emptyBreakdown(true),
       };
       this.dirty = true;
     }
@@ -187,11 +761,13 @@ export class EconomyTracker {
     usd?: number;
     description: string;
     meta?: Record<string, unknown>;
-  }): void {
+  }): LedgerEntry {
     this.rolloverDay();
 
-    const tokens = entry.tokens ?? 0;
-    const usd = entry.usd ?? 0;
+    const gross = { tokens: entry.tokens ?? 0, usd: entry.usd ?? 0 };
+    const share = this.shares[entry.type];
+    const split = share ? splitRevenue(gross.tokens, gross.usd, share) : null;
+    const { tokens, usd } = split?.moss ?? gross;
 
     this.state.balance.tokenCredits += tokens;
     this.state.balance.usdcBalance += usd;
@@ -199,82 +775,844 @@ export class EconomyTracker {
     this.state.totals.lifetimeUsdcEarned += usd;
     this.state.today.tokensEarned += tokens;
     this.state.today.usdcEarned += usd;
+    if (split) this.allocateSplit(split);
 
-    this.appendLedger({
+    const tx = this.appendLedger({
       type: entry.type,
       direction: "income",
-      amount: tokens || usd,
-      unit: tokens ? "tokens" : "usd",
+      tokens: gross.tokens,
+      usd: gross.usd,
       description: entry.description,
-      meta: entry.meta,
+      meta: split ? { ...entry.meta, split, share } : entry.meta,
     });
 
-    this.updateTier();
+    this.updateTier(tx.id);
     this.dirty = true;
+    return tx;
   }
 
   // ── Record expense ──
 
+  /**
+   * Record an expense.
+   *
+   * 传入 usage 时按定价表计价：tokens 取加权 token，真实 USD 成本
+   * 累计到 llmCostUsd（不是 USDC 支出，USDC 只走 usd 字段）。
+   */
   recordExpense(entry: {
     type: LedgerEntry["type"];
     tokens?: number;
     usd?: number;
+    usage?: TokenUsage;
     description?: string;
     model?: string;
     provider?: string;
     sessionId?: string;
     timestamp?: string;
-  }): void {
+    meta?: Record<string, unknown>;
+  }): LedgerEntry {
     this.rolloverDay();
 
-    const tokens = entry.tokens ?? 0;
+    const cost = entry.usage
+      ? this.pricing.cost(entry.usage, entry.provider, entry.model)
+      : null;
+    const tokens = entry.tokens ?? cost?.tokens ?? 0;
     const usd = entry.usd ?? 0;
+    const llmCostUsd = cost?.usd ?? 0;
+    // BOSS corrections move the balance but are not MOSS spending
+    const isAdjustment = entry.type === "manual_adjustment";
 
     this.state.balance.tokenCredits -= tokens;
+    this.state.balance.usdcBalance -= usd;
     this.state.totals.lifetimeTokensSpent += tokens;
-    this.state.today.tokensSpent += tokens;
-    this.state.today.usdcSpent += usd;
-    this.state.today.llmCalls++;
+    this.state.totals.lifetimeUsdcSpent += usd;
+    this.state.totals.lifetimeLlmCostUsd += llmCostUsd;
+    if (!isAdjustment) {
+      this.state.today.tokensSpent += tokens;
+      this.state.today.usdcSpent += usd;
+    }
+    if (entry.type === "x402_payment") {
+      this.state.today.x402Usd += usd;
+    }
+    this.state.today.llmCostUsd += llmCostUsd;
+    if (entry.type === "llm_inference") {
+      this.state.today.llmCalls++;
+    }
+    if (entry.usage && cost) {
+      const labels = { model: entry.model, provider: entry.provider, sessionId: entry.sessionId };
+      recordUsage(this.state.today.usage, entry.usage, cost, labels);
+      recordUsage(this.state.totals.usage, entry.usage, cost, labels);
+    }
 
-    // Only log significant expenses to ledger (avoid flooding)
-    if (tokens > 1000 || usd > 0) {
-      this.appendLedger({
-        type: entry.type,
-        direction: "expense",
-        amount: tokens || usd,
-        unit: tokens ? "tokens" : "usd",
-        description: entry.description ?? `${entry.model ?? "llm"} inference`,
-        meta: {
-          model: entry.model,
-          provider: entry.provider,
-          sessionId: entry.sessionId,
-        },
+    const envelope = tokens > 0 && !isAdjustment ? this.envelopeFor(entry.sessionId) : undefined;
+    if (envelope) {
+      const spent = this.state.today.envelopeTokens;
+      spent[envelope] = (spent[envelope] ?? 0) + tokens;
+    }
+
+    const tx = this.appendLedger({
+      type: entry.type,
+      direction: "expense",
+      tokens,
+      usd,
+      description: entry.description ?? `${entry.model ?? "llm"} inference`,
+      meta: {
+        ...entry.meta,
+        model: entry.model,
+        provider: entry.provider,
+        sessionId: entry.sessionId,
+        envelope,
+        ...(cost && {
+          usage: entry.usage,
+          rawTokens: cost.rawTokens,
+          costUsd: cost.usd,
+          priceKey: cost.priceKey,
+        }),
+      },
+    });
+
+    this.updateTier(tx.id);
+    this.dirty = true;
+    return tx;
+  }
+
+  // ── Manual adjustments & reversals ──
+
+  /**
+   * BOSS correction: signed amount in tokens or USD.
+   */
+  adjustBalance(amount: number, unit: "tokens" | "usd", reason: string): LedgerEntry {
+    if (!Number.isFinite(amount) || amount === 0) throw new Error("调整金额无效");
+    if (!reason.trim()) throw new Error("必须说明调整原因");
+
+    const entry = {
+      type: "manual_adjustment" as const,
+      tokens: unit === "tokens" ? Math.abs(amount) : 0,
+      usd: unit === "usd" ? Math.abs(amount) : 0,
+      description: reason,
+      meta: { kind: "adjustment", by: "boss" },
+    };
+    return amount > 0 ? this.recordIncome(entry) : this.recordExpense(entry);
+  }
+
+  /**
+   * Undo a transaction with a compensating entry linked to the original.
+   * Nothing is deleted; today's counters are only touched when the original
+   * happened today.
+   */
+  async reverseTransaction(id: string, reason: string): Promise<LedgerEntry> {
+    await this.flushJournal();
+    const journal = await this.journal.read();
+    const original = journal.find((e) => e.id === id);
+
+    if (!original) throw new Error(`未找到流水 ${id}`);
+    const kind = original.meta?.kind;
+    if (original.meta?.legacy || kind === "opening_balance") throw new Error(`${id} 是迁移记录，不能冲正`);
+    if (kind === "reversal") throw new Error(`${id} 本身是冲正记录，如需恢复请用 /moss adjust`);
+    if (kind === "reconciliation") throw new Error(`${id} 是对账校正，以外部余额为准，不能冲正`);
+    const existing = journal.find((e) => e.meta?.reverses === id);
+    if (existing) throw new Error(`${id} 已被 ${existing.id} 冲正`);
+
+    this.rolloverDay();
+    this.unapply(original);
+
+    const tx = this.appendLedger({
+      type: original.type,
+      direction: original.direction === "income" ? "expense" : "income",
+      tokens: original.tokens,
+      usd: original.usd,
+      description: `冲正 ${id}: ${reason}`,
+      meta: { kind: "reversal", reverses: id, reason, original },
+    });
+    this.updateTier(tx.id);
+    this.dirty = true;
+    return tx;
+  }
+
+  /**
+   * Inverse of recordIncome / recordExpense / recordDividendPayout for one entry.
+   */
+  private unapply(e: LedgerEntry): void {
+    const { balance: b, totals: t, today, accounts: a } = this.state;
+    const sameDay = localDate(Date.parse(e.timestamp), this.timeZone) === today.date;
+
+    if (e.type === "dividend_payout") {
+      a.bossPayable.tokens += e.tokens;
+      a.bossPayable.usd += e.usd;
+      a.dividendsPaid.tokens -= e.tokens;
+      a.dividendsPaid.usd -= e.usd;
+      return;
+    }
+
+    if (e.direction === "income") {
+      const { tokens, usd } = mossShareOf(e);
+      b.tokenCredits -= tokens;
+      b.usdcBalance -= usd;
+      t.lifetimeTokensEarned -= tokens;
+      t.lifetimeUsdcEarned -= usd;
+      if (sameDay) {
+        today.tokensEarned -= tokens;
+        today.usdcEarned -= usd;
+      }
+
+      const split = e.meta?.split as RevenueSplit | undefined;
+      if (split) {
+        a.bossPayable.tokens -= split.boss.tokens;
+        a.bossPayable.usd -= split.boss.usd;
+        a.dividendsAccrued.tokens -= split.boss.tokens;
+        a.dividendsAccrued.usd -= split.boss.usd;
+        a.reserve.tokens -= split.reserve.tokens;
+        a.reserve.usd -= split.reserve.usd;
+      }
+      return;
+    }
+
+    const { tokens, usd } = e;
+    const llmCostUsd = Number(e.meta?.costUsd ?? 0);
+    b.tokenCredits += tokens;
+    b.usdcBalance += usd;
+    t.lifetimeTokensSpent -= tokens;
+    t.lifetimeUsdcSpent -= usd;
+    t.lifetimeLlmCostUsd -= llmCostUsd;
+    if (sameDay) {
+      if (e.type !== "manual_adjustment") {
+        today.tokensSpent -= tokens;
+        today.usdcSpent -= usd;
+      }
+      if (e.type === "x402_payment") today.x402Usd -= usd;
+      today.llmCostUsd -= llmCostUsd;
+      if (e.type === "llm_inference") today.llmCalls--;
+      const envelope = e.meta?.envelope as string | undefined;
+      if (envelope && today.envelopeTokens[envelope]) today.envelopeTokens[envelope] -= tokens;
+    }
+  }
+
+  // ── Revenue sharing ──
+
+  private resolveShares(overrides: ShareTable | undefined): ShareTable {
+    const table = { ...DEFAULT_REVENUE_SHARES, ...(overrides ?? {}) };
+    const error = validateShareTable(table);
+    if (!error) return table;
+    this.logger.error(`[MOSS Economy] Ignoring invalid revenueShares config: ${error}`);
+    return { ...DEFAULT_REVENUE_SHARES };
+  }
+
+  private allocateSplit(split: RevenueSplit): void {
+    const a = this.state.accounts;
+    a.bossPayable.tokens += split.boss.tokens;
+    a.bossPayable.usd += split.boss.usd;
+    a.dividendsAccrued.tokens += split.boss.tokens;
+    a.dividendsAccrued.usd += split.boss.usd;
+    a.reserve.tokens += split.reserve.tokens;
+    a.reserve.usd += split.reserve.usd;
+  }
+
+  getRevenueShares(): ShareTable {
+    return this.shares;
+  }
+
+  /**
+   * Record dividends paid out to BOSS (reduces bossPayable, not MOSS's balance).
+   */
+  recordDividendPayout(payout: { tokens?: number; usd?: number; note?: string }): LedgerEntry {
+    const tokens = payout.tokens ?? 0;
+    const usd = payout.usd ?? 0;
+    const payable = this.state.accounts.bossPayable;
+
+    const valid = (n: number) => Number.isFinite(n) && n >= 0;
+    if (!valid(tokens) || !valid(usd) || tokens + usd <= 0) {
+      throw new Error("分红金额无效");
+    }
+    if (tokens > payable.tokens || usd > payable.usd + 1e-9) {
+      throw new Error(`超过应付分红（${formatMoney(payable)}）`);
+    }
+
+    const a = this.state.accounts;
+    a.bossPayable.tokens -= tokens;
+    a.bossPayable.usd -= usd;
+    a.dividendsPaid.tokens += tokens;
+    a.dividendsPaid.usd += usd;
+
+    const tx = this.appendLedger({
+      type: "dividend_payout",
+      direction: "expense",
+      tokens,
+      usd,
+      description: payout.note ?? "BOSS 分红提取",
+      meta: { account: "boss_payable" },
+    });
+    this.dirty = true;
+    return tx;
+  }
+
+  /**
+   * Running shareholder statement for BOSS.
+   */
+  getShareholderStatement(): string {
+    const a = this.state.accounts;
+    const recent = this.recentLedger
+      .filter((e) => e.meta?.split || e.type === "dividend_payout")
+      .slice(-10);
+
+    return [
+      `🧾 BOSS 股东账单`,
+      ``,
+      `💰 应付分红: ${formatMoney(a.bossPayable)}`,
+      `📈 累计分红: ${formatMoney(a.dividendsAccrued)}`,
+      `📤 累计已付: ${formatMoney(a.dividendsPaid)}`,
+      `🏦 储备金: ${formatMoney(a.reserve)}`,
+      ``,
+      `分成比例:`,
+      ...formatShareTable(this.shares),
+      ``,
+      recent.length > 0 ? `📜 最近分成/提取:` : `📜 暂无分成记录`,
+      ...recent.map((e) => {
+        const time = localTime(e.timestamp, this.timeZone);
+        if (e.type === "dividend_payout") {
+          return `  📤 ${time} 提取 ${formatMoney({ tokens: e.tokens, usd: e.usd })} — ${e.description}`;
+        }
+        const split = e.meta!.split as RevenueSplit;
+        return `  💚 ${time} ${e.type} BOSS +${formatMoney(split.boss)} — ${e.description}`;
+      }),
+    ].join("\n");
+  }
+
+  // ── Budget envelopes ──
+
+  getBudgetEnvelopes(): BudgetEnvelope[] {
+    return this.options.budgetEnvelopes ?? DEFAULT_BUDGET_ENVELOPES;
+  }
+
+  /**
+   * Which envelope a session draws from ("other" if none matches).
+   */
+  envelopeFor(sessionKey: string | undefined): string {
+    return resolveEnvelope(this.getBudgetEnvelopes(), sessionKey, this.options.bossChatId);
+  }
+
+  getEnvelopeStatuses(): EnvelopeStatus[] {
+    this.rolloverDay();
+    const spent = this.state.today.envelopeTokens;
+    return [
+      ...this.getBudgetEnvelopes().map((e) => envelopeStatus(e, spent[e.name] ?? 0)),
+      envelopeStatus({ name: OTHER_ENVELOPE, sessions: [], dailyTokens: 0 }, spent[OTHER_ENVELOPE] ?? 0),
+    ];
+  }
+
+  /**
+   * Status of the envelope a (prospective) session would draw from.
+   */
+  getEnvelopeStatusForSession(sessionKey: string): EnvelopeStatus {
+    const name = this.envelopeFor(sessionKey);
+    return this.getEnvelopeStatuses().find((s) => s.name === name)!;
+  }
+
+  getBudgetReport(): string {
+    return [
+      `💼 今日预算 (${this.state.today.date}):`,
+      ...this.getEnvelopeStatuses().map((s) => `  ${formatEnvelopeStatus(s)}`),
+    ].join("\n");
+  }
+
+  // ── x402 payment authorization ──
+
+  /**
+   * Authorize an outgoing x402 payment.
+   *
+   * - 金额无效 / USDC 余额不足 → rejected
+   * - 超过单次或每日上限 → pending，等 BOSS `/moss approve <id>`
+   * - 限额内 → approved，立即记一笔 x402_payment 支出
+   */
+  authorizePayment(amountUsd: number, payee: string, reason: string): PaymentRequest {
+    this.rolloverDay();
+
+    const request: PaymentRequest = {
+      id: `pay_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+      createdAt: new Date().toISOString(),
+      amountUsd,
+      payee,
+      reason,
+      status: "pending",
+    };
+
+    if (!Number.isFinite(amountUsd) || amountUsd <= 0) {
+      this.decidePayment(request, "rejected", "auto", "金额无效");
+    } else if (amountUsd > this.state.balance.usdcBalance) {
+      this.decidePayment(request, "rejected", "auto", "USDC 余额不足");
+    } else {
+      const check = checkSpendLimits(
+        amountUsd,
+        this.state.today.x402Usd,
+        this.state.config.spendLimits,
+      );
+      if (check.ok) {
+        this.decidePayment(request, "approved", "auto");
+      } else {
+        request.note = `${check.reason}，需 BOSS 批准`;
+        this.logger.warn(`[MOSS Economy] Payment parked for approval: ${formatPaymentRequest(request)}`);
+      }
+    }
+
+    this.appendPayment(request);
+    this.dirty = true;
+    return request;
+  }
+
+  /**
+   * BOSS approves a pending payment (bypasses spend limits, not the balance).
+   */
+  approvePayment(id: string): PaymentRequest {
+    const request = this.getPendingPayment(id);
+    if (request.amountUsd > this.state.balance.usdcBalance) {
+      throw new Error(`USDC 余额不足，无法批准 ${id}`);
+    }
+    this.decidePayment(request, "approved", "boss");
+    this.dirty = true;
+    return request;
+  }
+
+  /**
+   * BOSS denies a pending payment.
+   */
+  denyPayment(id: string): PaymentRequest {
+    const request = this.getPendingPayment(id);
+    this.decidePayment(request, "denied", "boss");
+    this.dirty = true;
+    return request;
+  }
+
+  getPayments(status?: PaymentRequest["status"]): PaymentRequest[] {
+    return status
+      ? this.state.payments.filter((p) => p.status === status)
+      : this.state.payments;
+  }
+
+  private getPendingPayment(id: string): PaymentRequest {
+    const request = this.state.payments.find((p) => p.id === id);
+    if (!request) throw new Error(`未找到支付请求 ${id}`);
+    if (request.status !== "pending") {
+      throw new Error(`支付请求 ${id} 已是 ${request.status} 状态`);
+    }
+    return request;
+  }
+
+  private decidePayment(
+    request: PaymentRequest,
+    status: "approved" | "rejected" | "denied",
+    decidedBy: "auto" | "boss",
+    note?: string,
+  ): void {
+    request.status = status;
+    request.decidedBy = decidedBy;
+    request.decidedAt = new Date().toISOString();
+    if (note) request.note = note;
+
+    if (status === "approved") {
+      this.recordExpense({
+        type: "x402_payment",
+        usd: request.amountUsd,
+        description: `x402 → ${request.payee}: ${request.reason}`,
       });
+      this.logger.info(`[MOSS Economy] Payment approved (${decidedBy}): ${formatPaymentRequest(request)}`);
     }
+  }
+
+  private appendPayment(request: PaymentRequest): void {
+    this.state.payments.push(request);
 
-    this.updateTier();
+    // Keep bounded, but never drop pending requests
+    if (this.state.payments.length > 200) {
+      const pending = this.state.payments.filter((p) => p.status === "pending");
+      const decided = this.state.payments.filter((p) => p.status !== "pending");
+      this.state.payments = [...decided.slice(-(200 - pending.length)), ...pending];
+    }
+  }
+
+  getPaymentsReport(): string {
+    const pending = this.getPayments("pending");
+    const recent = this.state.payments.filter((p) => p.status !== "pending").slice(-5);
+    const limits = this.state.config.spendLimits;
+
+    return [
+      `💳 x402 支付授权`,
+      `  限额: 单次 $${limits.maxSingleX402Usd} / 每日 $${limits.maxDailyX402Usd} (今日已用 $${this.state.today.x402Usd.toFixed(4)})`,
+      ``,
+      pending.length > 0 ? `⏳ 待批准 ${pending.length} 笔:` : `⏳ 无待批准请求`,
+      ...pending.map((p) => `  ${formatPaymentRequest(p)}`),
+      ...(recent.length > 0
+        ? [``, `🧾 最近处理:`, ...recent.map((p) => `  ${formatPaymentRequest(p)}`)]
+        : []),
+    ].join("\n");
+  }
+
+  // ── Income claims (agent-reported income) ──
+
+  /**
+   * Submit an agent-reported income claim. Never credits the balance directly.
+   *
+   * - boss_task_reward / middleman_margin / subagent_income → pending，等 BOSS 确认
+   * - x402_revenue 无 sourceRef / sourceRef 已用过 → rejected
+   * - x402_revenue 被 verifier 接受 → confirmed 并入账，否则 pending
+   */
+  async submitIncomeClaim(entry: {
+    type: ClaimType;
+    tokens?: number;
+    usd?: number;
+    description: string;
+    sourceRef?: string;
+  }): Promise<IncomeClaim> {
+    const claim: IncomeClaim = {
+      id: `inc_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+      createdAt: new Date().toISOString(),
+      type: entry.type,
+      tokens: entry.tokens ?? 0,
+      usd: entry.usd ?? 0,
+      description: entry.description,
+      sourceRef: entry.sourceRef?.trim() || undefined,
+      status: "pending",
+    };
+
+    const valid = (n: number) => Number.isFinite(n) && n >= 0;
+    if (!valid(claim.tokens) || !valid(claim.usd) || claim.tokens + claim.usd <= 0) {
+      this.decideClaim(claim, "rejected", "auto", "金额无效");
+    } else if (claim.type === "x402_revenue") {
+      if (!claim.sourceRef) {
+        this.decideClaim(claim, "rejected", "auto", "x402 收入必须提供 sourceRef");
+      } else if (this.isSourceRefUsed(claim.sourceRef)) {
+        this.decideClaim(claim, "rejected", "auto", "sourceRef 已被使用");
+      } else {
+        // Reserve the sourceRef before awaiting: a concurrent claim for the same receipt
+        // now finds this pending one and is rejected
+        this.state.incomeClaims.push(claim);
+        const verifier = await verifyRevenue(claim.sourceRef, claim, this.logger);
+        if (verifier) {
+          this.decideClaim(claim, "confirmed", verifier);
+        } else {
+          claim.note = "未通过自动验证，需 BOSS 确认";
+        }
+      }
+    }
+
+    if (!this.state.incomeClaims.includes(claim)) this.state.incomeClaims.push(claim);
+    this.trimClaims();
+    this.dirty = true;
+    return claim;
+  }
+
+  /**
+   * BOSS confirms a pending claim → income is credited.
+   */
+  confirmIncomeClaim(id: string): IncomeClaim {
+    const claim = this.getPendingClaim(id);
+    this.decideClaim(claim, "confirmed", "boss");
+    this.dirty = true;
+    return claim;
+  }
+
+  /**
+   * BOSS rejects a pending claim.
+   */
+  rejectIncomeClaim(id: string, note?: string): IncomeClaim {
+    const claim = this.getPendingClaim(id);
+    this.decideClaim(claim, "rejected", "boss", note);
     this.dirty = true;
+    return claim;
+  }
+
+  getIncomeClaims(status?: IncomeClaim["status"]): IncomeClaim[] {
+    return status
+      ? this.state.incomeClaims.filter((c) => c.status === status)
+      : this.state.incomeClaims;
+  }
+
+  getIncomeClaimsReport(): string {
+    const pending = this.getIncomeClaims("pending");
+    const recent = this.state.incomeClaims.filter((c) => c.status !== "pending").slice(-5);
+
+    return [
+      pending.length > 0 ? `⏳ 待确认收入 ${pending.length} 笔:` : `⏳ 无待确认收入`,
+      ...pending.map((c) => `  ${formatIncomeClaim(c)}`),
+      ...(recent.length > 0
+        ? [``, `🧾 最近处理:`, ...recent.map((c) => `  ${formatIncomeClaim(c)}`)]
+        : []),
+    ].join("\n");
+  }
+
+  private getPendingClaim(id: string): IncomeClaim {
+    const claim = this.state.incomeClaims.find((c) => c.id === id);
+    if (!claim) throw new Error(`未找到收入申报 ${id}`);
+    if (claim.status !== "pending") {
+      throw new Error(`收入申报 ${id} 已是 ${claim.status} 状态`);
+    }
+    return claim;
+  }
+
+  private isSourceRefUsed(sourceRef: string): boolean {
+    return (
+      !!this.state.usedSourceRefs?.includes(sourceRef) ||
+      this.state.incomeClaims.some((c) => c.sourceRef === sourceRef && c.status !== "rejected")
+    );
+  }
+
+  private decideClaim(
+    claim: IncomeClaim,
+    status: "confirmed" | "rejected",
+    decidedBy: string,
+    note?: string,
+  ): void {
+    claim.status = status;
+    claim.decidedBy = decidedBy;
+    claim.decidedAt = new Date().toISOString();
+    if (note) claim.note = note;
+
+    if (status === "confirmed") {
+      if (claim.sourceRef) (this.state.usedSourceRefs ??= []).push(claim.sourceRef);
+      this.recordIncome({
+        type: claim.type,
+        tokens: claim.tokens,
+        usd: claim.usd,
+        description: claim.description,
+        meta: { claimId: claim.id, sourceRef: claim.sourceRef, confirmedBy: decidedBy },
+      });
+      this.logger.info(`[MOSS Economy] Income claim confirmed (${decidedBy}): ${formatIncomeClaim(claim)}`);
+    }
+  }
+
+  private trimClaims(): void {
+    // Keep bounded, but never drop pending claims
+    if (this.state.incomeClaims.length > 200) {
+      const pending = this.state.incomeClaims.filter((c) => c.status === "pending");
+      const decided = this.state.incomeClaims.filter((c) => c.status !== "pending");
+      this.state.incomeClaims = [...decided.slice(-(200 - pending.length)), ...pending];
+    }
+  }
+
+  // ── Task board (BOSS bounties) ──
+
+  /**
+   * BOSS posts a task with a rate-card tier or an explicit bounty (tokens).
+   */
+  postTask(task: { title: string; tier?: RateCardTier; bounty?: number }): BoardTask {
+    const title = task.title.trim();
+    if (!title) throw new Error("任务标题不能为空");
+    const bounty = task.bounty ?? (task.tier ? this.rateCard[task.tier] : NaN);
+    if (!Number.isInteger(bounty) || bounty <= 0) throw new Error("悬赏必须是正整数 tokens");
+
+    const posted: BoardTask = {
+      id: `task_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+      createdAt: new Date().toISOString(),
+      title,
+      tier: task.tier,
+      bounty,
+      status: "open",
+    };
+    this.state.taskBoard.push(posted);
+    this.trimTasks();
+    this.dirty = true;
+    return posted;
+  }
+
+  /**
+   * MOSS claims an open task.
+   */
+  claimTask(id: string): BoardTask {
+    const task = this.getBoardTask(id, "open");
+    if (task.tier === "maintenance" && task.lastPaidDate === this.state.today.date) {
+      throw new Error(`日常维护任务 ${id} 今天已领过工资，明天再来`);
+    }
+    task.status = "claimed";
+    task.claimedAt = new Date().toISOString();
+    task.note = undefined;
+    this.dirty = true;
+    return task;
+  }
+
+  /**
+   * MOSS submits completion with evidence; waits for BOSS approval.
+   */
+  submitTask(id: string, evidence: string): BoardTask {
+    const task = this.getBoardTask(id, "claimed");
+    if (!evidence.trim()) throw new Error("必须提供完成证据");
+    task.status = "submitted";
+    task.submittedAt = new Date().toISOString();
+    task.evidence = evidence.trim();
+    task.note = undefined;
+    this.dirty = true;
+    return task;
+  }
+
+  /**
+   * BOSS approves a submission → boss_task_reward is recorded.
+   * Maintenance tasks reopen for the next day.
+   */
+  approveTask(id: string): { task: BoardTask; tx: LedgerEntry } {
+    const task = this.getBoardTask(id, "submitted");
+    const tx = this.recordIncome({
+      type: "boss_task_reward",
+      tokens: task.bounty,
+      description: `任务 ${task.id}: ${task.title}`,
+      meta: { taskId: task.id, tier: task.tier, evidence: task.evidence },
+    });
+    task.decidedAt = new Date().toISOString();
+    task.rewardTxId = tx.id;
+    task.lastPaidDate = this.state.today.date;
+    task.status = task.tier === "maintenance" ? "open" : "approved";
+    this.logger.info(`[MOSS Economy] Task approved: ${formatBoardTask(task)}`);
+    this.dirty = true;
+    return { task, tx };
+  }
+
+  /**
+   * BOSS rejects a submission → back to MOSS for rework.
+   */
+  rejectTask(id: string, note?: string): BoardTask {
+    const task = this.getBoardTask(id, "submitted");
+    task.status = "claimed";
+    task.decidedAt = new Date().toISOString();
+    task.note = note ?? "BOSS 退回，需返工";
+    this.dirty = true;
+    return task;
+  }
+
+  cancelTask(id: string, note?: string): BoardTask {
+    const task = this.state.taskBoard.find((t) => t.id === id);
+    if (!task) throw new Error(`未找到任务 ${id}`);
+    if (task.status === "approved" || task.status === "cancelled") {
+      throw new Error(`任务 ${id} 已是 ${task.status} 状态`);
+    }
+    task.status = "cancelled";
+    task.decidedAt = new Date().toISOString();
+    if (note) task.note = note;
+    this.dirty = true;
+    return task;
+  }
+
+  getBoardTasks(status?: BoardTaskStatus): BoardTask[] {
+    return status ? this.state.taskBoard.filter((t) => t.status === status) : this.state.taskBoard;
+  }
+
+  getRateCard(): RateCard {
+    return this.rateCard;
+  }
+
+  getTaskBoardReport(): string {
+    const active = this.state.taskBoard.filter((t) => ["open", "claimed", "submitted"].includes(t.status));
+    const recent = this.state.taskBoard.filter((t) => t.status === "approved").slice(-5);
+    const submitted = active.filter((t) => t.status === "submitted");
+
+    return [
+      active.length > 0 ? `📋 任务板（进行中 ${active.length} 个）:` : `📋 任务板暂无进行中的任务`,
+      ...active.map((t) => `  ${formatBoardTask(t)}`),
+      ...(submitted.length > 0 ? [``, `📤 ${submitted.length} 个任务待审批: /moss tasks approve <id> / reject <id> [原因]`] : []),
+      ...(recent.length > 0 ? [``, `✅ 最近完成:`, ...recent.map((t) => `  ${formatBoardTask(t)}`)] : []),
+      ``,
+      `💰 工资标准:`,
+      ...formatRateCard(this.rateCard),
+    ].join("\n");
+  }
+
+  private getBoardTask(id: string, status: BoardTaskStatus): BoardTask {
+    const task = this.state.taskBoard.find((t) => t.id === id);
+    if (!task) throw new Error(`未找到任务 ${id}`);
+    if (task.status !== status) throw new Error(`任务 ${id} 当前是 ${task.status} 状态，需要 ${status}`);
+    return task;
+  }
+
+  private trimTasks(): void {
+    // Keep bounded, but never drop unfinished tasks
+    if (this.state.taskBoard.length > 200) {
+      const done = (t: BoardTask) => t.status === "approved" || t.status === "cancelled";
+      const active = this.state.taskBoard.filter((t) => !done(t));
+      const finished = this.state.taskBoard.filter(done);
+      this.state.taskBoard = [...finished.slice(-Math.max(0, 200 - active.length)), ...active];
+    }
   }
 
   // ── Survival tier ──
 
-  private updateTier(): void {
-    const balance = this.state.balance.tokenCredits;
-    const thresholds = this.state.config.survivalThresholds;
+  /**
+   * Re-evaluate the tier; on change, record a transition with its cause.
+   */
+  private updateTier(cause: string): void {
+    const b = this.state.balance;
+    const next = computeTier(
+      b.tokenCredits,
+      b.survivalTier,
+      this.state.config.survivalThresholds,
+      this.state.config.tierHysteresisPct,
+    );
+    if (next === b.survivalTier) return;
 
-    this.state.balance.previousTier = this.state.balance.survivalTier;
+    this.accrueTierTime();
+    const transition: TierTransition = {
+      seq: this.state.nextTierSeq++,
+      at: new Date().toISOString(),
+      from: b.survivalTier,
+      to: next,
+      balance: b.tokenCredits,
+      cause,
+    };
+    b.previousTier = b.survivalTier;
+    b.survivalTier = next;
+    this.state.tierHistory.push(transition);
+    if (this.state.tierHistory.length > 200) {
+      this.state.tierHistory = this.state.tierHistory.slice(-200);
+    }
+    this.dirty = true;
+    this.logger.info(`[MOSS Economy] Tier ${transition.from} → ${transition.to} (balance=${b.tokenCredits}, cause=${cause})`);
+  }
 
-    if (balance >= thresholds.rich) {
-      this.state.balance.survivalTier = "rich";
-    } else if (balance >= thresholds.normal) {
-      this.state.balance.survivalTier = "normal";
-    } else if (balance >= thresholds.tight) {
-      this.state.balance.survivalTier = "tight";
-    } else if (balance >= thresholds.danger) {
-      this.state.balance.survivalTier = "danger";
-    } else {
-      this.state.balance.survivalTier = "hibernate";
+  /**
+   * Credit the time since the last accrual to the current tier.
+   */
+  private accrueTierTime(now = Date.now()): void {
+    const from = Date.parse(this.state.tierClockAt);
+    if (Number.isFinite(from) && now > from) {
+      const tier = this.state.balance.survivalTier;
+      const tierMs = this.state.today.tierMs;
+      tierMs[tier] = (tierMs[tier] ?? 0) + (now - from);
     }
+    this.state.tierClockAt = new Date(Math.max(now, Number.isFinite(from) ? from : 0)).toISOString();
+  }
+
+  // ── History ──
+
+  /**
+   * Daily stats, oldest first, including today (tier time accrued up to now).
+   */
+  getDailyHistory(): DailyStats[] {
+    this.rolloverDay();
+    this.accrueTierTime();
+    return [...this.state.history, this.state.today];
+  }
+
+  getPeriodStats(period: HistoryPeriod): { current: PeriodStats; previous?: PeriodStats } {
+    const periods = rollup(this.getDailyHistory(), period);
+    const current = periods[periods.length - 1];
+    const prevKey = previousPeriodKey(current.key, period);
+    return { current, previous: periods.find((p) => p.key === prevKey) };
+  }
+
+  getPeriodReport(period: HistoryPeriod): string {
+    const { current, previous } = this.getPeriodStats(period);
+    return formatPeriodReport(period, current, previous);
+  }
+
+  // ── Usage breakdown ──
+
+  getUsageSummary(scope: UsageScope = "today", top = 5): UsageSummary {
+    this.rolloverDay();
+    const breakdown = scope === "today" ? this.state.today.usage : this.state.totals.usage;
+    return summarizeUsage(breakdown, scope, top);
+  }
+
+  getUsageReport(scope: UsageScope = "today"): string {
+    return formatUsageSummary(this.getUsageSummary(scope));
+  }
+
+  getTrendLine(): string {
+    const days = this.getDailyHistory();
+    return formatTrendLine(days.slice(0, -1), days[days.length - 1]);
   }
 
   getSurvivalTier(): SurvivalTier {
@@ -285,27 +1623,343 @@ export class EconomyTracker {
     return this.state.balance.previousTier;
   }
 
+  /**
+   * Transitions with seq > afterSeq, oldest first.
+   */
+  getTierTransitions(afterSeq = 0): TierTransition[] {
+    return this.state.tierHistory.filter((t) => t.seq > afterSeq);
+  }
+
+  getLatestTierSeq(): number {
+    return this.state.nextTierSeq - 1;
+  }
+
+  /**
+   * Set one or more thresholds (BOSS via /moss). Throws on invalid input.
+   */
+  setSurvivalThresholds(patch: Partial<Record<SurvivalTier, number>>): void {
+    const merged = { ...this.state.config.survivalThresholds, ...patch };
+    const error = validateThresholds(merged);
+    if (error) throw new Error(error);
+    this.state.config.survivalThresholds = merged;
+    this.updateTier("threshold_change");
+    this.dirty = true;
+  }
+
+  setTierHysteresis(pct: number): void {
+    if (!Number.isFinite(pct) || pct < 0 || pct > 100) {
+      throw new Error(`滞回百分比无效: ${pct}`);
+    }
+    this.state.config.tierHysteresisPct = pct;
+    this.dirty = true;
+  }
+
+  /**
+   * Plugin config pins thresholds/hysteresis; applied after every load.
+   */
+  private applyTierConfig(): void {
+    const { survivalThresholds, tierHysteresisPct } = this.options;
+    if (survivalThresholds && Object.keys(survivalThresholds).length > 0) {
+      try {
+        this.setSurvivalThresholds(survivalThresholds);
+      } catch (err) {
+        this.logger.error(`[MOSS Economy] Ignoring invalid survivalThresholds config: ${(err as Error).message}`);
+      }
+    }
+    if (tierHysteresisPct !== undefined) {
+      try {
+        this.setTierHysteresis(tierHysteresisPct);
+      } catch (err) {
+        this.logger.error(`[MOSS Economy] Ignoring invalid tierHysteresisPct config: ${(err as Error).message}`);
+      }
+    }
+  }
+
+  getTierReport(): string {
+    const c = this.state.config;
+    const history = this.state.tierHistory.slice(-10);
+    return [
+      `🏷️ 生存等级: ${this.state.balance.survivalTier} (余额 ${this.state.balance.tokenCredits.toLocaleString()})`,
+      ``,
+      `阈值 (余额 ≥):`,
+      ...SURVIVAL_TIER_ORDER.slice(0, -1).map((t) => `  ${t}: ${c.survivalThresholds[t].toLocaleString()}`),
+      `  hibernate: < ${c.survivalThresholds.danger.toLocaleString()}`,
+      `滞回: 升级需超过阈值 ${c.tierHysteresisPct}%`,
+      ``,
+      history.length > 0 ? `📜 最近 ${history.length} 次等级变化:` : `📜 暂无等级变化记录`,
+      ...history.map((t) => `  ${formatTierTransition(t, this.timeZone)}`),
+    ].join("\n");
+  }
+
+  // ── Runway forecast ──
+
+  getForecast(): RunwayForecast {
+    return forecastRunway(
+      this.state.balance.tokenCredits,
+      this.state.balance.survivalTier,
+      this.state.config.survivalThresholds,
+      this.burn,
+    );
+  }
+
   // ── Refresh (called by heartbeat) ──
 
-  async refresh(): Promise<void> {
+  /**
+   * Roll the day over and reconcile against external balance providers.
+   */
+  async refresh(): Promise<ReconcileResult[]> {
     this.rolloverDay();
-    // Future: query AT API for actual token balance, query chain for USDC
+    return this.reconcileBalances();
+  }
+
+  // ── Balance reconciliation ──
+
+  /**
+   * Poll balance providers; per account the first provider with a reading wins.
+   * `force` ignores provider poll intervals.
+   */
+  async reconcileBalances(force = false): Promise<ReconcileResult[]> {
+    const results: ReconcileResult[] = [];
+    const done = new Set<BalanceAccount>();
+
+    for (const provider of listBalanceProviders()) {
+      if (done.has(provider.account)) continue;
+
+      const unitError = providerUnitError(provider);
+      if (unitError) {
+        if (!this.unitRejected.has(provider.name)) {
+          this.unitRejected.add(provider.name);
+          this.logger.warn(`[MOSS Economy] Balance provider rejected: ${unitError}`);
+        }
+        continue;
+      }
+
+      const last = this.lastPolled.get(provider.name) ?? 0;
+      if (!force && provider.pollIntervalMs && Date.now() - last < provider.pollIntervalMs) {
+        done.add(provider.account);
+        continue;
+      }
+      this.lastPolled.set(provider.name, Date.now());
+
+      let external: number | null;
+      try {
+        external = await provider.read();
+      } catch (err) {
+        this.logger.warn(`[MOSS Economy] Balance provider "${provider.name}" failed: ${err}`);
+        external = null;
+      }
+      if (external === null || !Number.isFinite(external)) continue;
+      if (provider.account === "tokens" && provider.unit === "usd") {
+        external = this.pricing.tokensForUsd(external);
+      }
+
+      done.add(provider.account);
+      results.push(this.reconcile(provider.name, provider.account, external));
+    }
+    return results;
+  }
+
+  private reconcile(provider: string, account: BalanceAccount, external: number): ReconcileResult {
+    const b = this.state.balance;
+    const internal = account === "tokens" ? b.tokenCredits : b.usdcBalance;
+    const drift = external - internal;
+    const tolerance = { ...DEFAULT_DRIFT_TOLERANCE, ...this.options.driftTolerance };
+    const result: ReconcileResult = {
+      provider,
+      account,
+      at: new Date().toISOString(),
+      external,
+      internal,
+      drift,
+      alert: Math.abs(drift) > (account === "tokens" ? tolerance.tokens : tolerance.usd),
+    };
+
+    if (Math.abs(drift) > 1e-9) {
+      if (account === "tokens") b.tokenCredits = external;
+      else b.usdcBalance = external;
+
+      const tx = this.appendLedger({
+        type: "manual_adjustment",
+        direction: drift > 0 ? "income" : "expense",
+        tokens: account === "tokens" ? Math.abs(drift) : 0,
+        usd: account === "usdc" ? Math.abs(drift) : 0,
+        description: `余额对账校正 (${provider})`,
+        meta: { kind: "reconciliation", provider, account, external, internal, drift },
+      });
+      result.adjustmentId = tx.id;
+      this.updateTier(tx.id);
+      this.dirty = true;
+
+      const log = result.alert ? this.logger.warn : this.logger.info;
+      log.call(this.logger, `[MOSS Economy] Reconciled ${account} via ${provider}: drift ${drift} (external=${external}, ledger=${internal})`);
+    }
+
+    this.lastReconciled.set(account, result);
+    return result;
+  }
+
+  getReconcileReport(): string {
+    const list = listBalanceProviders();
+    const results = [...this.lastReconciled.values()];
+    return [
+      `🔍 余额对账`,
+      ``,
+      list.length > 0
+        ? `Provider: ${list.map((p) => `${p.name} (${p.account}, ${p.unit ?? "未声明单位"})`).join(", ")}`
+        : `未注册任何余额 provider（配置 balanceFile 或由外部插件注册）`,
+      ...list.flatMap((p) => {
+        const error = providerUnitError(p);
+        return error ? [`⛔ 已拒绝: ${error}`] : [];
+      }),
+      ...(results.length > 0
+        ? [``, `最近对账:`, ...results.map((r) => `  ${formatReconcileResult(r)} @ ${localTime(r.at, this.timeZone)}`)]
+        : []),
+    ].join("\n");
   }
 
   // ── Ledger ──
 
-  private appendLedger(partial: Omit<LedgerEntry, "id" | "timestamp">): void {
+  private appendLedger(partial: Omit<LedgerEntry, "id" | "timestamp">): LedgerEntry {
     const entry: LedgerEntry = {
       id: `tx_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
       timestamp: new Date().toISOString(),
       ...partial,
     };
-    this.state.ledger.push(entry);
+    this.unflushed.push(entry);
+    this.recentLedger.push(entry);
+    this.trackBurn(entry);
+
+    // Keep the in-memory view bounded; the journal keeps everything
+    if (this.recentLedger.length > 500) {
+      this.recentLedger = this.recentLedger.slice(-500);
+    }
+    return entry;
+  }
+
+  private async flushJournal(): Promise<void> {
+    if (this.unflushed.length === 0) return;
+    const batch = this.unflushed;
+    this.unflushed = [];
+    try {
+      await this.journal.append(batch);
+    } catch (err) {
+      // Put back in front so nothing is lost; retried on next save
+      this.unflushed = [...batch, ...this.unflushed];
+      this.logger.error(`[MOSS Economy] Journal append failed: ${err}`);
+    }
+  }
+
+  getJournal(): LedgerJournal {
+    return this.journal;
+  }
+
+  /**
+   * Replay the journal and compare with the snapshot.
+   */
+  async auditJournal(): Promise<JournalAudit> {
+    await this.flushJournal();
+    return this.journal.audit(balancesFromState(this.state));
+  }
+
+  /**
+   * Overwrite snapshot balances and totals with the journal replay.
+   */
+  async rebuildFromJournal(): Promise<JournalAudit> {
+    const audit = await this.auditJournal();
+    const b = audit.rebuilt;
+    this.state.balance.tokenCredits = b.tokenCredits;
+    this.state.balance.usdcBalance = b.usdcBalance;
+    this.state.totals = {
+      lifetimeTokensEarned: b.lifetimeTokensEarned,
+      lifetimeTokensSpent: b.lifetimeTokensSpent,
+      lifetimeUsdcEarned: b.lifetimeUsdcEarned,
+      lifetimeUsdcSpent: b.lifetimeUsdcSpent,
+      lifetimeLlmCostUsd: b.lifetimeLlmCostUsd,
+      // Usage counters are statistics, not balances — keep them
+      usage: this.state.totals.usage,
+    };
+    this.state.accounts.bossPayable = { tokens: b.bossPayableTokens, usd: b.bossPayableUsd };
+    this.state.accounts.reserve = { tokens: b.reserveTokens, usd: b.reserveUsd };
+    this.updateTier("rebuild");
+    this.dirty = true;
+    this.logger.warn(`[MOSS Economy] Snapshot rebuilt from journal (${audit.entries} entries, ${audit.diffs.length} fields corrected)`);
+    return audit;
+  }
 
-    // Keep ledger bounded (last 500 entries)
-    if (this.state.ledger.length > 500) {
-      this.state.ledger = this.state.ledger.slice(-500);
+  // ── Export / import ──
+
+  /**
+   * Export ledger entries (or daily summaries) over a date range to data/exports/.
+   */
+  async exportLedger(opts: {
+    from?: string;
+    to?: string;
+    days?: number;
+    kind?: ExportKind;
+    format?: ExportFormat;
+  } = {}): Promise<{ path: string; entries: number }> {
+    const kind = opts.kind ?? "entries";
+    const format = opts.format ?? "csv";
+
+    await this.flushJournal();
+    const range = queryRange(opts, this.timeZone);
+    const entries = (await this.journal.read(range)).filter((e) => e.meta?.kind !== "opening_balance");
+
+    const dir = join(this.dataDir, "exports");
+    await mkdir(dir, { recursive: true });
+    const stamp = new Date().toISOString().slice(0, 19).replace(/:/g, "");
+    const path = join(dir, `ledger-${kind}-${stamp}.${format}`);
+    await writeFileAtomic(path, exportLedger(entries, kind, format, this.timeZone));
+
+    this.logger.info(`[MOSS Economy] Exported ${entries.length} ledger entries to ${path}`);
+    return { path, entries: entries.length };
+  }
+
+  /**
+   * Import bulk manual adjustments from a CSV / JSON file.
+   * Relative paths resolve against data/imports/. All rows are validated
+   * before anything is recorded; the same file content can't be imported twice.
+   */
+  async importAdjustments(file: string): Promise<{ importId: string; rows: number; tokens: number; usd: number }> {
+    const importsDir = resolve(join(this.dataDir, "imports"));
+    const path = resolve(importsDir, file);
+    const rel = relative(importsDir, path);
+    if (!rel || rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+      throw new Error(`只能导入 data/imports/ 下的文件: ${file}`);
+    }
+    const batch = parseImport(await readFile(path, "utf-8"), basename(path));
+
+    await this.flushJournal();
+    const duplicate = (await this.journal.read()).some(
+      (e) => (e.meta?.provenance as { importId?: string } | undefined)?.importId === batch.importId,
+    );
+    if (duplicate) throw new Error(`该文件内容已导入过（${batch.importId}）`);
+
+    const importedAt = new Date().toISOString();
+    let tokens = 0;
+    let usd = 0;
+    for (const row of batch.rows) {
+      const meta = {
+        provenance: {
+          source: batch.source,
+          row: row.row,
+          importId: batch.importId,
+          importedAt,
+          occurredAt: row.occurredAt,
+          ref: row.ref,
+        },
+      };
+      const entry = { type: "manual_adjustment" as const, tokens: row.tokens, usd: row.usd, description: row.description, meta };
+      if (row.direction === "income") this.recordIncome(entry);
+      else this.recordExpense(entry);
+
+      const sign = row.direction === "income" ? 1 : -1;
+      tokens += sign * row.tokens;
+      usd += sign * row.usd;
     }
+
+    this.logger.info(`[MOSS Economy] Imported ${batch.rows.length} adjustments from ${batch.source} (${batch.importId})`);
+    return { importId: batch.importId, rows: batch.rows.length, tokens, usd };
   }
 
   // ── Reports ──
@@ -326,31 +1980,59 @@ export class EconomyTracker {
       `${tierEmoji[s.balance.survivalTier]} 生存等级: ${s.balance.survivalTier}`,
       `💰 Token 余额: ${s.balance.tokenCredits.toLocaleString()}`,
       `💵 USDC 余额: $${s.balance.usdcBalance.toFixed(4)}`,
+      `🛣️ ${formatRunway(this.getForecast())}`,
       ``,
       `📅 今日 (${s.today.date}):`,
       `  收入: +${s.today.tokensEarned.toLocaleString()} tokens, +$${s.today.usdcEarned.toFixed(4)}`,
       `  支出: -${s.today.tokensSpent.toLocaleString()} tokens, -$${s.today.usdcSpent.toFixed(4)}`,
-      `  LLM 调用: ${s.today.llmCalls} 次`,
+      `  LLM 调用: ${s.today.llmCalls} 次 (成本 $${s.today.llmCostUsd.toFixed(4)})`,
       ``,
       `📈 累计:`,
       `  总收入: ${s.totals.lifetimeTokensEarned.toLocaleString()} tokens / $${s.totals.lifetimeUsdcEarned.toFixed(4)}`,
       `  总支出: ${s.totals.lifetimeTokensSpent.toLocaleString()} tokens / $${s.totals.lifetimeUsdcSpent.toFixed(4)}`,
+      `  LLM 总成本: $${s.totals.lifetimeLlmCostUsd.toFixed(4)}`,
       ``,
+      ...this.getDividendSummary(),
+      ...this.getPendingClaimsSummary(),
+      ...(this.recoveredFrom ? [`⚠️ 启动时快照损坏，已从 ${this.recoveredFrom} 恢复`, ``] : []),
       `🕐 更新: ${s.lastUpdated}`,
     ].join("\n");
   }
 
+  private getDividendSummary(): string[] {
+    const payable = this.state.accounts.bossPayable;
+    if (payable.tokens <= 0 && payable.usd <= 0) return [];
+    return [`🧾 应付 BOSS 分红: ${formatMoney(payable)}（/moss dividends）`, ``];
+  }
+
+  private getPendingClaimsSummary(): string[] {
+    const pending = this.getIncomeClaims("pending");
+    if (pending.length === 0) return [];
+
+    const tokens = pending.reduce((sum, c) => sum + c.tokens, 0);
+    const usd = pending.reduce((sum, c) => sum + c.usd, 0);
+    return [
+      `⏳ 待确认收入: ${pending.length} 笔 (+${tokens.toLocaleString()} tokens, +$${usd.toFixed(4)})`,
+      ...pending.slice(-5).map((c) => `  ${formatIncomeClaim(c)}`),
+      ``,
+    ];
+  }
+
   getRecentLedger(count: number): string {
-    const entries = this.state.ledger.slice(-count);
+    const entries = this.recentLedger.slice(-count);
     if (entries.length === 0) return "📒 暂无流水记录";
 
-    const lines = entries.map((e) => {
-      const sign = e.direction === "income" ? "+" : "-";
-      const emoji = e.direction === "income" ? "💚" : "💸";
-      return `${emoji} ${e.timestamp.slice(5, 16)} ${sign}${e.amount} ${e.unit} — ${e.description}`;
-    });
+    return [`📒 最近 ${entries.length} 条流水:`, "", ...entries.map((e) => formatLedgerEntry(e, this.timeZone))].join("\n");
+  }
 
-    return [`📒 最近 ${entries.length} 条流水:`, "", ...lines].join("\n");
+  /**
+   * Structured ledger query over the full journal.
+   */
+  async queryLedger(query: LedgerQuery): Promise<LedgerQueryResult> {
+    validateLedgerQuery(query);
+    await this.flushJournal();
+    const entries = await this.journal.read(queryRange(query, this.timeZone));
+    return runLedgerQuery(entries, query, this.timeZone);
   }
 
   // ── Getters for heartbeat ──
@@ -358,4 +2040,8 @@ export class EconomyTracker {
   getState(): EconomyState {
     return this.state;
   }
+
+  getPricing(): PricingTable {
+    return this.pricing;
+  }
 }
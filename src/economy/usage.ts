@@ -0,0 +1,170 @@
+/**
+ * Usage Breakdown — 按模型 / provider / 会话拆分的 token 用量
+ *
+ * 对标 Conway: agent/spend-tracker.ts 的按模型统计
+ * 每次 llm_inference 把 input / output / cacheRead / cacheWrite 分别累加：
+ * - 今日：按模型、provider、会话（跨天归档时会话只保留前 SESSIONS_KEPT 个）
+ * - 累计：按模型、provider
+ *
+ * 用来判断 prompt caching 和模型选择是否划算：缓存命中率、每次调用平均 token、最耗的会话。
+ * 这是用量统计，不是记账：冲正一笔 LLM 流水不会减少这里的计数。
+ */
+
+import type { InferenceCost, TokenUsage } from "./pricing.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface UsageCounters {
+  calls: number;
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  /** Weighted accounting tokens charged */
+  tokens: number;
+  costUsd: number;
+}
+
+export interface UsageBreakdown {
+  byModel: Record<string, UsageCounters>;
+  byProvider: Record<string, UsageCounters>;
+  /** Only kept for daily stats */
+  bySession?: Record<string, UsageCounters>;
+}
+
+export type UsageScope = "today" | "lifetime";
+
+export interface UsageSummary {
+  scope: UsageScope;
+  total: UsageCounters;
+  /** cacheRead / (input + cacheRead + cacheWrite) */
+  cacheHitRatio: number;
+  /** Raw tokens per call */
+  avgTokensPerCall: number;
+  models: Array<{ key: string } & UsageCounters>;
+  providers: Array<{ key: string } & UsageCounters>;
+  topSessions: Array<{ key: string } & UsageCounters>;
+}
+
+/** Sessions kept per archived day */
+export const SESSIONS_KEPT = 10;
+
+// ─── Counters ───────────────────────────────────────────────
+
+export function emptyCounters(): UsageCounters {
+  return { calls: 0, input: 0, output: 0, cacheRead: 0, cacheWrite: 0, tokens: 0, costUsd: 0 };
+}
+
+export function emptyBreakdown(withSessions = false): UsageBreakdown {
+  return { byModel: {}, byProvider: {}, ...(withSessions && { bySession: {} }) };
+}
+
+function add(map: Record<string, UsageCounters>, key: string, usage: TokenUsage, cost: InferenceCost): void {
+  const c = (map[key] ??= emptyCounters());
+  c.calls++;
+  c.input += usage.input ?? 0;
+  c.output += usage.output ?? 0;
+  c.cacheRead += usage.cacheRead ?? 0;
+  c.cacheWrite += usage.cacheWrite ?? 0;
+  c.tokens += cost.tokens;
+  c.costUsd += cost.usd;
+}
+
+/**
+ * Count one inference call into a breakdown.
+ */
+export function recordUsage(
+  b: UsageBreakdown,
+  usage: TokenUsage,
+  cost: InferenceCost,
+  labels: { model?: string; provider?: string; sessionId?: string },
+): void {
+  add(b.byModel, labels.model ?? "(unknown)", usage, cost);
+  add(b.byProvider, labels.provider ?? "(unknown)", usage, cost);
+  if (b.bySession) add(b.bySession, labels.sessionId ?? "(none)", usage, cost);
+}
+
+/**
+ * Drop all but the heaviest sessions (before a day is archived).
+ */
+export function pruneSessions(b: UsageBreakdown, keep = SESSIONS_KEPT): void {
+  if (!b.bySession) return;
+  b.bySession = Object.fromEntries(ranked(b.bySession).slice(0, keep).map(({ key, ...c }) => [key, c]));
+}
+
+function sum(map: Record<string, UsageCounters>): UsageCounters {
+  const total = emptyCounters();
+  for (const c of Object.values(map)) {
+    for (const k of Object.keys(total) as Array<keyof UsageCounters>) total[k] += c[k];
+  }
+  return total;
+}
+
+function ranked(map: Record<string, UsageCounters>): Array<{ key: string } & UsageCounters> {
+  return Object.entries(map)
+    .map(([key, c]) => ({ key, ...c }))
+    .sort((a, b) => b.tokens - a.tokens);
+}
+
+export function rawTokens(c: UsageCounters): number {
+  return c.input + c.output + c.cacheRead + c.cacheWrite;
+}
+
+export function cacheHitRatio(c: UsageCounters): number {
+  const prompt = c.input + c.cacheRead + c.cacheWrite;
+  return prompt > 0 ? c.cacheRead / prompt : 0;
+}
+
+export function summarizeUsage(b: UsageBreakdown, scope: UsageScope, top = 5): UsageSummary {
+  const total = sum(b.byModel);
+  return {
+    scope,
+    total,
+    cacheHitRatio: cacheHitRatio(total),
+    avgTokensPerCall: total.calls > 0 ? Math.round(rawTokens(total) / total.calls) : 0,
+    models: ranked(b.byModel),
+    providers: ranked(b.byProvider),
+    topSessions: ranked(b.bySession ?? {}).slice(0, top),
+  };
+}
+
+// ─── Formatting ─────────────────────────────────────────────
+
+function pct(ratio: number): string {
+  return `${(ratio * 100).toFixed(1)}%`;
+}
+
+function formatRow(r: { key: string } & UsageCounters): string {
+  const avg = r.calls > 0 ? Math.round(rawTokens(r) / r.calls) : 0;
+  return (
+    `  ${r.key}: ${r.calls} 次, 入 ${r.input.toLocaleString()} / 出 ${r.output.toLocaleString()} / ` +
+    `缓存读 ${r.cacheRead.toLocaleString()} / 缓存写 ${r.cacheWrite.toLocaleString()}, ` +
+    `命中 ${pct(cacheHitRatio(r))}, 均 ${avg.toLocaleString()}/次, $${r.costUsd.toFixed(4)}`
+  );
+}
+
+export function formatUsageSummary(s: UsageSummary): string {
+  if (s.total.calls === 0) {
+    return `📊 ${s.scope === "today" ? "今日" : "累计"}还没有 LLM 调用`;
+  }
+
+  const t = s.total;
+  const lines = [
+    `📊 LLM 用量（${s.scope === "today" ? "今日" : "累计"}）`,
+    ``,
+    `调用: ${t.calls} 次，平均 ${s.avgTokensPerCall.toLocaleString()} tokens/次`,
+    `输入: ${t.input.toLocaleString()} | 输出: ${t.output.toLocaleString()}`,
+    `缓存读: ${t.cacheRead.toLocaleString()} | 缓存写: ${t.cacheWrite.toLocaleString()} | 命中率: ${pct(s.cacheHitRatio)}`,
+    `计费: ${t.tokens.toLocaleString()} tokens ($${t.costUsd.toFixed(4)})`,
+    ``,
+    `按模型:`,
+    ...s.models.map(formatRow),
+    ``,
+    `按 provider:`,
+    ...s.providers.map(formatRow),
+  ];
+  if (s.topSessions.length > 0) {
+    lines.push(``, `最耗的会话:`, ...s.topSessions.map(formatRow));
+  }
+  return lines.join("\n");
+}
@@ -6,7 +6,13 @@
  * 核心设计：
  * - Task 注册机制：具体业务检查项作为可插拔的 HeartbeatTask
  * - recursive setTimeout（不用 setInterval，防止 tick 重叠）—— Conway 同款
- * - 每次 tick 遍历所有注册的 task，根据 intervalTicks 决定是否执行
+ * - 每次 tick 遍历所有注册的 task，根据 intervalTicks 或墙钟 schedule 决定是否执行
+ *   （schedule 的下次到期时间持久化，见 schedule.ts）
+ * - 到期的 task 并发执行（上限 taskConcurrency），各自超时后通过 AbortSignal 取消，
+ *   一个卡住的健康检查不会拖住其他 task 和 tick 末尾的持久化
+ * - 每个 task 记录运行统计，连续失败则熔断暂停并通知 BOSS（见 task-health.ts）
+ * - 唤醒前过 WakeGate：去重、冷却、限流，被抑制的汇总进下次唤醒（见 wake-gate.ts）
+ * - 同一 tick 的多个唤醒原因合并成一次唤醒（紧急优先），除非 task 声明 wakeRouting: "separate"
  * - 发现问题 → enqueueSystemEvent 唤醒 Agent（带完整上下文）
  * - 紧急情况 → openclaw system event --mode now 立即唤醒
  *
@@ -14,12 +20,38 @@
  * 其他业务检查项通过 registerTask() 外部注册。
  */
 
+import { join } from "path";
 import type { MossLoopConfig } from "../index.js";
 import type { EconomyTracker, SurvivalTier } from "../economy/tracker.js";
+import type { SpendMonitor } from "../economy/spend-monitor.js";
 import type { HeartbeatTask, HeartbeatTaskResult } from "./tasks.js";
 import { DecisionLogger } from "../decisions/logger.js";
+import { PolicyEngine } from "../policy/engine.js";
+import { formatRunway } from "../economy/forecast.js";
+import { formatBoardTask } from "../economy/task-board.js";
+import { readJsonFile, writeFileAtomic } from "../economy/persistence.js";
+import {
+  describeSchedule,
+  nextRunAt,
+  validateSchedule,
+  type ScheduleState,
+} from "./schedule.js";
+import {
+  DEFAULT_TASK_BREAKER,
+  clearSuspension,
+  emptyHealth,
+  formatTaskHealth,
+  isSuspended,
+  recordFailure,
+  recordSuccess,
+  type TaskBreakerConfig,
+  type TaskHealth,
+} from "./task-health.js";
+import { DEFAULT_WAKE_LIMITS, WakeGate, formatSuppressedWakes } from "./wake-gate.js";
 import {
   createEconomyCheckTask,
+  createRunwayTask,
+  createSpendAnomalyTask,
   createThinkingTask,
 } from "./tasks.js";
 
@@ -27,12 +59,21 @@ import {
 
 export interface HeartbeatOptions {
   economy: EconomyTracker;
+  spendMonitor?: SpendMonitor;
   config: MossLoopConfig;
   logger: any;
   runtime: any;
   stateDir: string;
 }
 
+/** Default per-run task timeout */
+const DEFAULT_TASK_TIMEOUT_MS = 30_000;
+/** Default number of tasks running at once */
+const DEFAULT_TASK_CONCURRENCY = 4;
+
+/** Tasks whose urgent results also go straight to BOSS */
+const BOSS_ALERT_TASKS = ["economy-check", "spend-anomaly"];
+
 /** Recent event for context packing */
 interface RecentEvent {
   timestamp: number;
@@ -41,6 +82,20 @@ interface RecentEvent {
   urgent: boolean;
 }
 
+/** An admitted wake reason, collected per tick */
+interface WakeReason {
+  taskName: string;
+  message: string;
+  urgent: boolean;
+}
+
+/** A task run that has not settled yet */
+interface InFlightRun {
+  controller: AbortController;
+  startedAt: number;
+  timeoutMs: number;
+}
+
 // ─── HeartbeatDaemon ────────────────────────────────────────
 
 export class HeartbeatDaemon {
@@ -51,20 +106,55 @@ export class HeartbeatDaemon {
   /** Registered tasks */
   private tasks: HeartbeatTask[] = [];
 
+  /** Per-task run stats and breaker state (in memory) */
+  private health = new Map<string, TaskHealth>();
+  private readonly breakerConfig: TaskBreakerConfig;
+
+  /** Dedup / cooldown / rate limit in front of wakeAgent */
+  private readonly wakeGate: WakeGate;
+
+  /**
+   * Runs not yet settled. A timed-out task that ignores its signal is not started
+   * again: every tick it stays hung counts as a failure, and after another full
+   * timeout the entry is dropped so the task can run fresh.
+   */
+  private inFlight = new Map<string, InFlightRun>();
+
   /** Recent wake events for context packing (ring buffer, last 20) */
   private recentEvents: RecentEvent[] = [];
   private readonly MAX_RECENT_EVENTS = 20;
 
+  /** Next-due times of scheduled tasks, persisted across restarts */
+  private schedules: Record<string, ScheduleState> = {};
+  private schedulesLoaded: Promise<void> | null = null;
+  private schedulesDirty = false;
+  private readonly schedulePath: string;
+
   constructor(private opts: HeartbeatOptions) {
+    this.schedulePath = join(opts.stateDir, "heartbeat-schedule.json");
+    this.breakerConfig = { ...DEFAULT_TASK_BREAKER, ...opts.config.taskBreaker };
+    this.wakeGate = new WakeGate({ ...DEFAULT_WAKE_LIMITS, ...opts.config.wakeLimits });
+
     // Register built-in tasks
     this.registerTask(createEconomyCheckTask(opts.economy));
 
+    // Register spend anomaly task (runaway-loop detection + circuit breaker)
+    if (opts.spendMonitor?.getConfig().enabled) {
+      this.registerTask(createSpendAnomalyTask(opts.spendMonitor));
+    }
+
+    // Register runway warning task (if runwayHorizonHours > 0)
+    if (opts.config.runwayHorizonHours > 0) {
+      this.registerTask(
+        createRunwayTask(opts.economy, { horizonHours: opts.config.runwayHorizonHours }),
+      );
+    }
+
     // Register periodic thinking task (if thinkIntervalMs > 0)
     if (opts.config.thinkIntervalMs > 0) {
       this.registerTask(
         createThinkingTask(opts.economy, {
           thinkIntervalMs: opts.config.thinkIntervalMs,
-          heartbeatIntervalMs: opts.config.heartbeatIntervalMs,
         }),
       );
     }
@@ -74,9 +164,16 @@ export class HeartbeatDaemon {
 
   /**
    * Register a heartbeat task.
-   * Tasks are executed based on their intervalTicks during each tick cycle.
+   * Tasks are executed based on their intervalTicks or schedule during each tick cycle.
+   * Throws if the schedule is invalid or can never fire.
    */
   registerTask(task: HeartbeatTask): void {
+    if (task.schedule) {
+      validateSchedule(task.schedule, this.opts.economy.getTimeZone());
+    } else if (!Number.isInteger(task.intervalTicks) || task.intervalTicks! < 1) {
+      throw new Error(`HeartbeatTask "${task.name}" needs intervalTicks ≥ 1 or a schedule`);
+    }
+
     // Prevent duplicate task names
     const existing = this.tasks.findIndex((t) => t.name === task.name);
     if (existing >= 0) {
@@ -86,8 +183,9 @@ export class HeartbeatDaemon {
       this.tasks[existing] = task;
     } else {
       this.tasks.push(task);
+      this.health.set(task.name, emptyHealth());
       this.opts.logger.info(
-        `[MOSS] HeartbeatTask registered: "${task.name}" (every ${task.intervalTicks} ticks)`,
+        `[MOSS] HeartbeatTask registered: "${task.name}" (${this.describeCadence(task)})`,
       );
     }
   }
@@ -99,6 +197,7 @@ export class HeartbeatDaemon {
     const idx = this.tasks.findIndex((t) => t.name === name);
     if (idx >= 0) {
       this.tasks.splice(idx, 1);
+      this.health.delete(name);
       this.opts.logger.info(`[MOSS] HeartbeatTask unregistered: "${name}"`);
       return true;
     }
@@ -108,16 +207,62 @@ export class HeartbeatDaemon {
   /**
    * List all registered tasks.
    */
-  listTasks(): Array<{ name: string; intervalTicks: number }> {
+  listTasks(): Array<{
+    name: string;
+    intervalTicks?: number;
+    schedule?: string;
+    nextDueAt?: string;
+    health: TaskHealth;
+  }> {
     return this.tasks.map((t) => ({
       name: t.name,
       intervalTicks: t.intervalTicks,
+      ...(t.schedule && {
+        schedule: describeSchedule(t.schedule),
+        nextDueAt: this.schedules[t.name]?.nextDueAt,
+      }),
+      health: { ...this.getHealth(t.name) },
     }));
   }
 
+  /**
+   * Lift a breaker suspension so the task runs on its next due tick.
+   */
+  resumeTask(name: string): boolean {
+    const health = this.health.get(name);
+    return !!health && clearSuspension(health);
+  }
+
+  /**
+   * Task health view for /moss tasks health.
+   */
+  getTaskReport(): string {
+    const now = Date.now();
+    const suspended = this.tasks.filter((t) => isSuspended(this.health.get(t.name), now)).length;
+    const wakes = this.wakeGate.getStats(now);
+    return [
+      `💓 心跳 task（${this.tasks.length} 个，tick #${this.tickCount}${suspended > 0 ? `，${suspended} 个熔断中` : ""}）`,
+      `唤醒: 近 1 小时 ${wakes.wakesLastHour} 次，近 24 小时紧急 ${wakes.urgentLast24h} 次 | ` +
+        `已抑制 ${wakes.suppressedTotal} 次（待汇总 ${wakes.pendingSuppressed}）`,
+      ``,
+      ...this.tasks.map((t) => formatTaskHealth(t.name, this.describeCadence(t), this.getHealth(t.name), now)),
+    ].join("\n");
+  }
+
+  private getHealth(name: string): TaskHealth {
+    let health = this.health.get(name);
+    if (!health) this.health.set(name, (health = emptyHealth()));
+    return health;
+  }
+
+  private describeCadence(task: HeartbeatTask): string {
+    return task.schedule ? describeSchedule(task.schedule) : `every ${task.intervalTicks} ticks`;
+  }
+
   start(): void {
     if (this.running) return;
     this.running = true;
+    this.schedulesLoaded = this.loadSchedules();
 
     // First tick immediately
     this.tick().catch((err) => {
@@ -137,6 +282,9 @@ export class HeartbeatDaemon {
       clearTimeout(this.timer);
       this.timer = null;
     }
+    for (const { controller } of this.inFlight.values()) {
+      controller.abort(new Error("HeartbeatDaemon stopped"));
+    }
     this.opts.logger.info("[MOSS] HeartbeatDaemon stopped");
   }
 
@@ -164,24 +312,64 @@ export class HeartbeatDaemon {
   private async tick(): Promise<void> {
     this.tickCount++;
     const { economy, logger } = this.opts;
+    await this.schedulesLoaded;
 
-    // Run all tasks that are due
+    // Run all tasks that are due, concurrently
+    const now = Date.now();
+    const due: HeartbeatTask[] = [];
     for (const task of this.tasks) {
-      if (this.tickCount % task.intervalTicks !== 0) continue;
+      if (isSuspended(this.health.get(task.name), now)) continue;
+      if (this.inFlight.has(task.name) && !(await this.checkHung(task, now))) continue;
+      if (this.isDue(task)) due.push(task);
+    }
+    const concurrency = this.opts.config.taskConcurrency ?? DEFAULT_TASK_CONCURRENCY;
+    const results = await mapBounded(due, concurrency, (task) => this.runTask(task));
+
+    // Handle results in registration order (wakes stay deterministic)
+    const wakes: Array<{ task: HeartbeatTask; reason: WakeReason }> = [];
+    for (const [i, task] of due.entries()) {
+      const result = results[i];
+      if (!result) continue;
 
       try {
-        const result = await task.run();
+        if (result.resolved && this.wakeGate.resolve(task.name)) {
+          logger.info(`[MOSS] Task "${task.name}" resolved, wake dedup/cooldown cleared`);
+        }
 
         if (result.shouldWake && result.message) {
-          // Pack context and wake agent
-          const contextMessage = await this.packContext(task.name, result);
-          await this.wakeAgent(contextMessage, result.urgent ?? false, task.name);
-
-          // Track recent events
-          this.trackEvent(task.name, result.message, result.urgent ?? false);
+          let repeated = false;
+          // Tier policy: is this task allowed to wake the agent right now?
+          const verdict = PolicyEngine.getInstance()?.canWake(task.name);
+          if (verdict && !verdict.allowed) {
+            logger.info(`[MOSS] 🛡️ Wake suppressed: ${verdict.reason}`);
+            this.trackEvent(task.name, result.message, result.urgent ?? false);
+          } else {
+            // Dedup / cooldown / rate limit
+            const gate = this.wakeGate.admit(
+              {
+                taskName: task.name,
+                message: result.message,
+                urgent: result.urgent ?? false,
+                cooldownMs: task.wakeCooldownMs,
+                dedupKey: result.dedupKey,
+                severity: result.severity,
+              },
+              Date.now(),
+            );
+            if (!gate.allowed) {
+              logger.info(`[MOSS] 🔇 Wake from "${task.name}" held back (${gate.suppressed})`);
+              // A repeated alert is not news for BOSS either (escalations are never duplicates)
+              repeated = gate.suppressed === "duplicate";
+            } else {
+              if (gate.downgraded) {
+                logger.warn(`[MOSS] Urgent wake cap reached, "${task.name}" wakes as normal`);
+              }
+              wakes.push({ task, reason: { taskName: task.name, message: result.message, urgent: gate.urgent } });
+            }
+          }
 
-          // Special handling: economy-check urgent → notify BOSS directly
-          if (task.name === "economy-check" && result.urgent) {
+          // Special handling: economy-check / spend-anomaly urgent → notify BOSS directly
+          if (BOSS_ALERT_TASKS.includes(task.name) && result.urgent && !repeated) {
             await this.notifyBoss(`🔴 ${result.message}`);
           }
         }
@@ -190,8 +378,11 @@ export class HeartbeatDaemon {
       }
     }
 
+    await this.dispatchWakes(wakes);
+
     // Persist economy data (always, regardless of tasks)
     await economy.save();
+    await this.saveSchedules();
 
     // Periodic log (every 10 ticks, avoid spam)
     if (this.tickCount % 10 === 0) {
@@ -201,6 +392,193 @@ export class HeartbeatDaemon {
     }
   }
 
+  /**
+   * Run one task with its timeout. Failures and timeouts are logged, counted
+   * towards the task's breaker, and yield null.
+   */
+  private async runTask(task: HeartbeatTask): Promise<HeartbeatTaskResult | null> {
+    const timeoutMs = this.timeoutOf(task);
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    this.inFlight.set(task.name, { controller, startedAt, timeoutMs });
+
+    const run = Promise.resolve().then(() => task.run(controller.signal));
+    const release = () => {
+      if (this.inFlight.get(task.name)?.controller === controller) this.inFlight.delete(task.name);
+    };
+    run.then(release, release);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const err = new Error(`timed out after ${timeoutMs}ms`);
+        controller.abort(err);
+        reject(err);
+      }, timeoutMs);
+    });
+
+    const health = this.getHealth(task.name);
+    try {
+      const result = await Promise.race([run, timeout]);
+      if (recordSuccess(health, startedAt, Date.now() - startedAt)) {
+        this.opts.logger.info(`[MOSS] Task "${task.name}" recovered`);
+        await this.notifyBoss(`✅ 心跳 task "${task.name}" 已恢复`);
+      }
+      return result;
+    } catch (err) {
+      await this.recordTaskFailure(task.name, startedAt, Date.now() - startedAt, err);
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private timeoutOf(task: HeartbeatTask): number {
+    return task.timeoutMs ?? this.opts.config.taskTimeoutMs ?? DEFAULT_TASK_TIMEOUT_MS;
+  }
+
+  /**
+   * A task is still in flight at tick time. Returns true if it may run again.
+   * Still within its timeout → skip quietly; timed out but ignoring its signal →
+   * count a failure; hung for another full timeout → drop the run and start fresh.
+   */
+  private async checkHung(task: HeartbeatTask, now: number): Promise<boolean> {
+    const run = this.inFlight.get(task.name)!;
+    const hungMs = now - run.startedAt - run.timeoutMs;
+    if (hungMs < 0) {
+      this.opts.logger.warn(`[MOSS] Task "${task.name}" still running from an earlier tick, skipping`);
+      return false;
+    }
+    if (hungMs >= run.timeoutMs) {
+      this.inFlight.delete(task.name);
+      this.opts.logger.warn(`[MOSS] Task "${task.name}" ignored its abort signal for ${hungMs}ms, giving up on that run`);
+      return true;
+    }
+    await this.recordTaskFailure(
+      task.name,
+      run.startedAt,
+      now - run.startedAt,
+      new Error(`still running ${hungMs}ms after timing out (abort signal ignored)`),
+    );
+    return false;
+  }
+
+  /**
+   * Log a failed run, count it towards the breaker and notify BOSS on suspension.
+   */
+  private async recordTaskFailure(name: string, startedAt: number, durationMs: number, err: unknown): Promise<void> {
+    this.opts.logger.error(`[MOSS] Task "${name}" failed: ${err}`);
+    const health = this.getHealth(name);
+    const backoff = recordFailure(health, startedAt, durationMs, err, this.breakerConfig);
+    if (backoff !== null) {
+      const minutes = Math.round(backoff / 60_000);
+      this.opts.logger.warn(
+        `[MOSS] ⛔ Task "${name}" suspended for ${minutes}min after ${health.consecutiveFailures} consecutive failures`,
+      );
+      // Notify once per failure streak, not on every failed retry
+      if (health.suspensions === 1) {
+        await this.notifyBoss(
+          `⛔ 心跳 task "${name}" 连续失败 ${health.consecutiveFailures} 次，已暂停 ${minutes} 分钟后重试\n最近错误: ${health.lastError}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Wake the agent for this tick's admitted reasons: one combined wake
+   * (urgent if any reason is), plus one per task routed "separate".
+   */
+  private async dispatchWakes(wakes: Array<{ task: HeartbeatTask; reason: WakeReason }>): Promise<void> {
+    const batch = wakes.filter((w) => w.task.wakeRouting !== "separate").map((w) => w.reason);
+    const groups = [
+      ...(batch.length > 0 ? [batch] : []),
+      ...wakes.filter((w) => w.task.wakeRouting === "separate").map((w) => [w.reason]),
+    ];
+
+    for (const reasons of groups) {
+      // Urgent first; the stable sort keeps registration order within a priority
+      reasons.sort((a, b) => Number(b.urgent) - Number(a.urgent));
+      const urgent = reasons.some((r) => r.urgent);
+      try {
+        const contextMessage = await this.packContext(reasons);
+        await this.wakeAgent(contextMessage, urgent, reasons.map((r) => r.taskName).join("+"));
+        this.wakeGate.recordWake(urgent, Date.now());
+
+        const now = new Date().toISOString();
+        for (const r of reasons) {
+          this.getHealth(r.taskName).lastWakeAt = now;
+          this.trackEvent(r.taskName, r.message, r.urgent);
+        }
+      } catch (err) {
+        this.opts.logger.error(`[MOSS] Wake failed: ${err}`);
+      }
+    }
+  }
+
+  // ─── Scheduling ────────────────────────────────────────
+
+  /**
+   * Tick-based tasks: every N ticks. Scheduled tasks: wall-clock next-due time.
+   *
+   * A run is "missed" when it is due more than one heartbeat interval ago
+   * (gateway down, blocked tick); the task's missedRuns policy then decides
+   * between one catch-up run and skipping to the next occurrence.
+   */
+  private isDue(task: HeartbeatTask): boolean {
+    if (!task.schedule) return this.tickCount % task.intervalTicks! === 0;
+
+    const now = Date.now();
+    const timeZone = this.opts.economy.getTimeZone();
+    const spec = JSON.stringify(task.schedule);
+    const next = (after: number) => new Date(nextRunAt(task.schedule!, after, timeZone)!).toISOString();
+
+    const state = this.schedules[task.name];
+    if (!state || state.spec !== spec) {
+      this.schedules[task.name] = { spec, nextDueAt: next(now), skipped: 0 };
+      this.schedulesDirty = true;
+      return false;
+    }
+
+    const due = Date.parse(state.nextDueAt);
+    if (now < due) return false;
+
+    const missed = now - due > this.opts.config.heartbeatIntervalMs;
+    // Stay on the original cadence when on time; restart from now after a gap
+    const following = nextRunAt(task.schedule, due, timeZone)!;
+    state.nextDueAt = missed || following <= now ? next(now) : new Date(following).toISOString();
+    this.schedulesDirty = true;
+
+    if (missed && task.missedRuns === "skip") {
+      state.skipped++;
+      this.opts.logger.info(
+        `[MOSS] ⏭️ Skipped missed run of "${task.name}" (was due ${new Date(due).toISOString()}, next ${state.nextDueAt})`,
+      );
+      return false;
+    }
+    state.lastRunAt = new Date(now).toISOString();
+    return true;
+  }
+
+  private async loadSchedules(): Promise<void> {
+    try {
+      this.schedules = (await readJsonFile<Record<string, ScheduleState>>(this.schedulePath)) ?? {};
+    } catch (err) {
+      // Losing next-due times only shifts schedules, never worth failing the daemon
+      this.opts.logger.warn(`[MOSS] Heartbeat schedule state unreadable, recomputing: ${err}`);
+      this.schedules = {};
+    }
+  }
+
+  private async saveSchedules(): Promise<void> {
+    if (!this.schedulesDirty) return;
+    try {
+      await writeFileAtomic(this.schedulePath, JSON.stringify(this.schedules, null, 2));
+      this.schedulesDirty = false;
+    } catch (err) {
+      this.opts.logger.error(`[MOSS] Failed to persist heartbeat schedules: ${err}`);
+    }
+  }
+
   // ─── Context Packing (Thinking Loop) ───────────────────
 
   /**
@@ -210,28 +588,53 @@ export class HeartbeatDaemon {
    * 让 Agent 醒来后有足够信息做出决策（Route C: Thinking Loop）。
    *
    * 包含：
-   * - 触发原因
-   * - 当前经济状态摘要
+   * - 触发原因（同一 tick 的多个原因合并，紧急在前）
+   * - 当前经济状态摘要（含跑道预测）
+   * - 任务板上可做 / 在做的 BOSS 任务
    * - 最近事件历史
    */
-  private async packContext(taskName: string, result: HeartbeatTaskResult): Promise<string> {
+  private async packContext(reasons: WakeReason[]): Promise<string> {
     const { economy } = this.opts;
     const state = economy.getState();
     const tier = economy.getSurvivalTier();
 
     const sections: string[] = [];
 
-    // 1. Trigger reason
-    sections.push(`[触发] ${taskName}: ${result.message}`);
+    // 1. Trigger reason(s)
+    if (reasons.length === 1) {
+      sections.push(`[触发] ${reasons[0].taskName}: ${reasons[0].message}`);
+    } else {
+      const lines = reasons.map(
+        (r, i) => `  ${i + 1}. ${r.urgent ? "🔴" : "🔵"} [${r.taskName}] ${r.message.replace(/\n/g, "\n     ")}`,
+      );
+      sections.push(`[触发] 本次 tick 共 ${reasons.length} 个唤醒原因（紧急在前）:\n${lines.join("\n")}`);
+    }
 
     // 2. Economy snapshot
     sections.push(
       [
         `[经济状态] 等级=${tier} | Token余额=${state.balance.tokenCredits.toLocaleString()} | USDC=$${state.balance.usdcBalance.toFixed(4)}`,
         `  今日: 收入+${state.today.tokensEarned.toLocaleString()} 支出-${state.today.tokensSpent.toLocaleString()} LLM调用${state.today.llmCalls}次`,
+        `  ${formatRunway(economy.getForecast())}`,
       ].join("\n"),
     );
 
+    // 2b. Active tier policy (so the woken agent knows its budget)
+    const policy = PolicyEngine.getInstance()?.current().policy;
+    if (policy && policy.maxTokensPerWake > 0) {
+      sections.push(`[策略] 本次唤醒 token 上限 ${policy.maxTokensPerWake.toLocaleString()}，超出后工具调用会被拦截`);
+    }
+
+    // 2c. Task board (so wake-ups know what paid work is available)
+    const board = economy
+      .getBoardTasks()
+      .filter((t) => t.status === "open" || t.status === "claimed");
+    if (board.length > 0) {
+      const lines = board.slice(0, 5).map((t) => `  ${formatBoardTask(t)}`);
+      if (board.length > 5) lines.push(`  …还有 ${board.length - 5} 个，用 moss_tasks 查看`);
+      sections.push(`[任务板] 可做的 BOSS 任务（moss_task_claim 认领，moss_task_submit 提交）:\n${lines.join("\n")}`);
+    }
+
     // 3. Recent events (last 5, for context)
     if (this.recentEvents.length > 0) {
       const recent = this.recentEvents.slice(-5);
@@ -243,6 +646,12 @@ export class HeartbeatDaemon {
       sections.push(`[最近事件]\n${eventLines.join("\n")}`);
     }
 
+    // 3b. Wakes held back by dedup / cooldown / rate limit since the last wake
+    const suppressed = formatSuppressedWakes(this.wakeGate.takeSuppressed());
+    if (suppressed) {
+      sections.push(suppressed);
+    }
+
     // 4. Recent decisions (for continuity)
     const decisionLogger = DecisionLogger.getInstance();
     if (decisionLogger) {
@@ -300,6 +709,8 @@ export class HeartbeatDaemon {
         this.opts.logger.info("[MOSS] 🧠 Spawning thinking session...");
 
         const sessionId = `moss-think-${Date.now()}`;
+        if (this.isBreakerTripped(sessionId) || this.isEnvelopeExhausted(sessionId)) return;
+
         const thinkingPrompt = [
           `[MOSS 自主思考] ${reason}`,
           "",
@@ -343,12 +754,18 @@ export class HeartbeatDaemon {
       }
 
       // 紧急事件：立即触发（值得打断 BOSS 聊天）
-      if (urgent && runCmd) {
+      const urgentSessionId = `moss-urgent-${Date.now()}`;
+      if (
+        urgent &&
+        runCmd &&
+        !this.isBreakerTripped(urgentSessionId) &&
+        !this.isEnvelopeExhausted(urgentSessionId)
+      ) {
         await runCmd(
           [
             "openclaw",
             "agent",
-            "--session-id", `moss-urgent-${Date.now()}`,
+            "--session-id", urgentSessionId,
             "--message", `[MOSS 紧急] ${reason}\n\n请立即评估并处理，完成后用 message 工具通知 BOSS。`,
             "--timeout", "60",
           ],
@@ -360,6 +777,27 @@ export class HeartbeatDaemon {
     }
   }
 
+  /**
+   * 预算 envelope 用完 → 不再启动从它取钱的会话
+   */
+  private isEnvelopeExhausted(sessionId: string): boolean {
+    const status = this.opts.economy.getEnvelopeStatusForSession(sessionId);
+    if (!status.exhausted) return false;
+    this.opts.logger.warn(
+      `[MOSS] 💼 Budget envelope "${status.name}" exhausted (${status.spent.toLocaleString()}/${status.dailyTokens.toLocaleString()}), not spawning ${sessionId}`,
+    );
+    return true;
+  }
+
+  /**
+   * 熔断中 → 不启动非 BOSS 会话（启动了也会被策略拦截，白白浪费一次调用）
+   */
+  private isBreakerTripped(sessionId: string): boolean {
+    if (!this.opts.spendMonitor?.isTripped()) return false;
+    this.opts.logger.warn(`[MOSS] ⚡ Circuit breaker tripped, not spawning ${sessionId}`);
+    return true;
+  }
+
   // ─── Notify BOSS ───────────────────────────────────────
 
   /**
@@ -367,7 +805,7 @@ export class HeartbeatDaemon {
    *
    * 对标 Conway: heartbeat 里的 distress signal
    */
-  private async notifyBoss(message: string): Promise<void> {
+  async notifyBoss(message: string): Promise<void> {
     try {
       const sendMsg =
         this.opts.runtime?.channel?.telegram?.sendMessageTelegram;
@@ -384,3 +822,21 @@ export class HeartbeatDaemon {
     }
   }
 }
+
+// ─── Helpers ────────────────────────────────────────────────
+
+/**
+ * Map items with at most `limit` calls pending at once; results keep input order.
+ */
+async function mapBounded<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
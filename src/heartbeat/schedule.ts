@@ -0,0 +1,185 @@
+/**
+ * Task Schedules — 按墙钟时间调度心跳 task
+ *
+ * intervalTicks 跟着 heartbeatIntervalMs 走，改心跳间隔或重启都会让节奏漂移。
+ * Task 也可以声明 schedule，daemon 计算下次到期时间并持久化（data/heartbeat-schedule.json）：
+ * - every: 固定墙钟间隔，如 { kind: "every", everyMs: 3_600_000 }
+ * - daily: 每天固定时刻，如 { kind: "daily", times: ["09:00"] }（BOSS 时区，即记账时区）
+ * - cron:  5 段 cron 表达式（分 时 日 月 周），如 "0 9 * * 1-5"，同样按记账时区
+ *
+ * 错过的执行（网关停机、tick 阻塞）按 task 的 missedRuns 处理：
+ * - catch-up（默认）：补跑一次（多次错过合并成一次）
+ * - skip：跳过，等下一个时刻
+ */
+
+import { localDate, localWallTimeMs } from "../economy/timezone.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type TaskSchedule =
+  | { kind: "every"; everyMs: number }
+  | { kind: "daily"; times: string[] }
+  | { kind: "cron"; expr: string };
+
+export type MissedRunPolicy = "catch-up" | "skip";
+
+/** Persisted per task */
+export interface ScheduleState {
+  /** Serialized schedule — a changed schedule is recomputed from now */
+  spec: string;
+  nextDueAt: string;
+  lastRunAt?: string;
+  /** Runs dropped by the skip policy */
+  skipped: number;
+}
+
+interface CronFields {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Standard cron: when both day fields are restricted, either may match */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+/** How far ahead to search for the next cron match */
+const MAX_SEARCH_DAYS = 366 * 5;
+
+// ─── Parsing ────────────────────────────────────────────────
+
+function parseField(field: string, min: number, max: number, name: string): number[] {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepStr] = part.split("/");
+    const step = stepStr === undefined ? 1 : Number(stepStr);
+    if (!Number.isInteger(step) || step <= 0) throw new Error(`cron ${name} 步长无效: ${part}`);
+
+    let lo: number;
+    let hi: number;
+    if (range === "*") {
+      [lo, hi] = [min, max];
+    } else if (range.includes("-")) {
+      [lo, hi] = range.split("-").map(Number);
+    } else {
+      lo = Number(range);
+      hi = stepStr === undefined ? lo : max;
+    }
+    if (!Number.isInteger(lo) || !Number.isInteger(hi) || lo < min || hi > max || lo > hi) {
+      throw new Error(`cron ${name} 超出范围 ${min}-${max}: ${part}`);
+    }
+    for (let v = lo; v <= hi; v += step) values.add(v);
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+export function parseCron(expr: string): CronFields {
+  const fields = expr.trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error(`cron 表达式需要 5 段（分 时 日 月 周）: "${expr}"`);
+  const [min, hour, dom, month, dow] = fields;
+
+  return {
+    minutes: parseField(min, 0, 59, "分"),
+    hours: parseField(hour, 0, 23, "时"),
+    daysOfMonth: new Set(parseField(dom, 1, 31, "日")),
+    months: new Set(parseField(month, 1, 12, "月")),
+    // 0 and 7 are both Sunday
+    daysOfWeek: new Set(parseField(dow, 0, 7, "周").map((d) => d % 7)),
+    domRestricted: dom !== "*",
+    dowRestricted: dow !== "*",
+  };
+}
+
+function parseTimeOfDay(time: string): [number, number] {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  const [h, m] = match ? [Number(match[1]), Number(match[2])] : [NaN, NaN];
+  if (!(h >= 0 && h <= 23 && m >= 0 && m <= 59)) throw new Error(`时刻格式应为 HH:mm: "${time}"`);
+  return [h, m];
+}
+
+/**
+ * Throws with a readable message when the schedule can never fire.
+ */
+export function validateSchedule(schedule: TaskSchedule, timeZone: string): void {
+  if (schedule.kind === "every") {
+    if (!Number.isFinite(schedule.everyMs) || schedule.everyMs < 1_000) {
+      throw new Error(`everyMs 必须 ≥ 1000: ${schedule.everyMs}`);
+    }
+    return;
+  }
+  if (schedule.kind === "daily" && schedule.times.length === 0) {
+    throw new Error("daily 调度至少需要一个时刻");
+  }
+  if (nextRunAt(schedule, Date.now(), timeZone) === null) {
+    throw new Error(`调度永远不会触发: ${describeSchedule(schedule)}`);
+  }
+}
+
+// ─── Next due time ──────────────────────────────────────────
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86_400_000).toISOString().slice(0, 10);
+}
+
+function cronDayMatches(c: CronFields, date: string): boolean {
+  const [, month, day] = date.split("-").map(Number);
+  if (!c.months.has(month)) return false;
+  const dom = c.daysOfMonth.has(day);
+  const dow = c.daysOfWeek.has(new Date(`${date}T00:00:00Z`).getUTCDay());
+  if (c.domRestricted && c.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * First matching local wall time after `afterMs`.
+ */
+function nextWallTime(
+  afterMs: number,
+  timeZone: string,
+  dayMatches: (date: string) => boolean,
+  times: Array<[number, number]>,
+): number | null {
+  const firstDay = localDate(afterMs, timeZone);
+  for (let d = 0; d < MAX_SEARCH_DAYS; d++) {
+    const date = addDays(firstDay, d);
+    if (!dayMatches(date)) continue;
+    for (const [h, m] of times) {
+      const ms = localWallTimeMs(date, h, m, timeZone);
+      if (ms > afterMs) return ms;
+    }
+  }
+  return null;
+}
+
+/**
+ * Next run strictly after `afterMs`, or null if the schedule never fires.
+ */
+export function nextRunAt(schedule: TaskSchedule, afterMs: number, timeZone: string): number | null {
+  switch (schedule.kind) {
+    case "every":
+      return afterMs + schedule.everyMs;
+    case "daily": {
+      const times = schedule.times.map(parseTimeOfDay).sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+      return nextWallTime(afterMs, timeZone, () => true, times);
+    }
+    case "cron": {
+      const c = parseCron(schedule.expr);
+      const times = c.hours.flatMap((h) => c.minutes.map((m) => [h, m] as [number, number]));
+      return nextWallTime(afterMs, timeZone, (date) => cronDayMatches(c, date), times);
+    }
+  }
+}
+
+// ─── Formatting ─────────────────────────────────────────────
+
+export function describeSchedule(schedule: TaskSchedule): string {
+  switch (schedule.kind) {
+    case "every":
+      return `每 ${Math.round(schedule.everyMs / 60_000)} 分钟`;
+    case "daily":
+      return `每天 ${schedule.times.join(", ")}`;
+    case "cron":
+      return `cron "${schedule.expr}"`;
+  }
+}
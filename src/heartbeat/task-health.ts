@@ -0,0 +1,138 @@
+/**
+ * Task Health — 心跳 task 运行统计 + 自动熔断
+ *
+ * tick() 吞掉 task 异常只打日志，连续失败 500 次也没人知道。
+ * 每个 task 记录运行次数、失败次数、连续失败、最近错误、耗时和最近一次唤醒，
+ * 通过 listTasks() / moss.heartbeat.listTasks / `/moss tasks health`（别名 `/moss heartbeat`）查看。
+ * `/moss tasks` 本身是 BOSS 任务板，健康视图放在 `health` 子命令下避免冲突。
+ *
+ * 熔断：连续失败 failureThreshold 次 → 暂停 task 并通知 BOSS，
+ * 按 backoffMs 指数退避（上限 maxBackoffMs）后试跑一次：
+ * - 成功 → 恢复正常
+ * - 失败 → 退避翻倍，继续暂停
+ *
+ * 统计只在内存里，重启即重置（重启本身就是一次重试）。
+ */
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface TaskBreakerConfig {
+  /** Consecutive failures that suspend a task (0 = never) */
+  failureThreshold: number;
+  /** First suspension, doubled after every failed retry */
+  backoffMs: number;
+  maxBackoffMs: number;
+}
+
+export interface TaskHealth {
+  runs: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastErrorAt?: string;
+  lastRunAt?: string;
+  lastDurationMs?: number;
+  avgDurationMs: number;
+  lastWakeAt?: string;
+  /** Set while the breaker holds the task */
+  suspendedUntil?: string;
+  /** Suspensions in the current failure streak (drives the backoff) */
+  suspensions: number;
+}
+
+export const DEFAULT_TASK_BREAKER: TaskBreakerConfig = {
+  failureThreshold: 5,
+  backoffMs: 5 * 60_000,
+  maxBackoffMs: 6 * 3_600_000,
+};
+
+// ─── Recording ──────────────────────────────────────────────
+
+export function emptyHealth(): TaskHealth {
+  return { runs: 0, failures: 0, consecutiveFailures: 0, avgDurationMs: 0, suspensions: 0 };
+}
+
+function recordRun(h: TaskHealth, startedAt: number, durationMs: number): void {
+  h.runs++;
+  h.lastRunAt = new Date(startedAt).toISOString();
+  h.lastDurationMs = durationMs;
+  h.avgDurationMs = Math.round(h.avgDurationMs + (durationMs - h.avgDurationMs) / h.runs);
+}
+
+/**
+ * Returns true if the task was suspended and has now recovered.
+ */
+export function recordSuccess(h: TaskHealth, startedAt: number, durationMs: number): boolean {
+  recordRun(h, startedAt, durationMs);
+  const recovered = h.suspensions > 0;
+  h.consecutiveFailures = 0;
+  h.suspensions = 0;
+  delete h.suspendedUntil;
+  return recovered;
+}
+
+/**
+ * Returns the suspension length if this failure (re)suspends the task, else null.
+ */
+export function recordFailure(
+  h: TaskHealth,
+  startedAt: number,
+  durationMs: number,
+  error: unknown,
+  config: TaskBreakerConfig,
+): number | null {
+  recordRun(h, startedAt, durationMs);
+  h.failures++;
+  h.consecutiveFailures++;
+  h.lastError = error instanceof Error ? error.message : String(error);
+  h.lastErrorAt = new Date(startedAt + durationMs).toISOString();
+
+  if (config.failureThreshold <= 0) return null;
+  // A failed retry after a suspension re-suspends immediately
+  if (h.suspensions === 0 && h.consecutiveFailures < config.failureThreshold) return null;
+
+  const backoff = Math.min(config.backoffMs * 2 ** h.suspensions, config.maxBackoffMs);
+  h.suspensions++;
+  h.suspendedUntil = new Date(startedAt + durationMs + backoff).toISOString();
+  return backoff;
+}
+
+export function isSuspended(h: TaskHealth | undefined, now: number): boolean {
+  return !!h?.suspendedUntil && Date.parse(h.suspendedUntil) > now;
+}
+
+/** Clear a suspension by hand; the next failure streak starts from scratch */
+export function clearSuspension(h: TaskHealth): boolean {
+  const wasSuspended = h.suspensions > 0;
+  h.consecutiveFailures = 0;
+  h.suspensions = 0;
+  delete h.suspendedUntil;
+  return wasSuspended;
+}
+
+// ─── Formatting ─────────────────────────────────────────────
+
+function ago(iso: string | undefined, now: number): string {
+  if (!iso) return "—";
+  const minutes = Math.round((now - Date.parse(iso)) / 60_000);
+  if (minutes < 60) return `${minutes} 分钟前`;
+  if (minutes < 1440) return `${Math.round(minutes / 60)} 小时前`;
+  return `${Math.round(minutes / 1440)} 天前`;
+}
+
+export function formatTaskHealth(name: string, cadence: string, h: TaskHealth, now = Date.now()): string {
+  const icon = isSuspended(h, now) ? "⛔" : h.consecutiveFailures > 0 ? "⚠️" : h.runs > 0 ? "✅" : "⏳";
+  const lines = [
+    `${icon} ${name} (${cadence})`,
+    `    运行 ${h.runs} 次，失败 ${h.failures}（连续 ${h.consecutiveFailures}）| ` +
+      `耗时 ${h.lastDurationMs ?? "—"}ms / 均 ${h.avgDurationMs}ms | ` +
+      `上次运行 ${ago(h.lastRunAt, now)} | 上次唤醒 ${ago(h.lastWakeAt, now)}`,
+  ];
+  if (h.lastError && h.consecutiveFailures > 0) {
+    lines.push(`    最近错误: ${h.lastError}`);
+  }
+  if (isSuspended(h, now)) {
+    lines.push(`    熔断暂停至 ${h.suspendedUntil}（第 ${h.suspensions} 次）`);
+  }
+  return lines.join("\n");
+}
@@ -9,7 +9,12 @@
  * 通过 registerTask 外部注册。
  */
 
-import type { EconomyTracker, SurvivalTier } from "../economy/tracker.js";
+import type { EconomyTracker } from "../economy/tracker.js";
+import { isTierWorse, tierRank } from "../economy/tiers.js";
+import { formatDuration, formatRunway } from "../economy/forecast.js";
+import { formatReconcileResult } from "../economy/balance-providers.js";
+import { formatAnomaly, type SpendMonitor } from "../economy/spend-monitor.js";
+import type { MissedRunPolicy, TaskSchedule } from "./schedule.js";
 
 // ─── Core Interface ─────────────────────────────────────────
 
@@ -17,15 +22,37 @@ export interface HeartbeatTaskResult {
   shouldWake: boolean;
   urgent?: boolean;
   message?: string;
+  /** The condition behind earlier wakes is gone: clear dedup and cooldown so a relapse wakes at once */
+  resolved?: boolean;
+  /** Identifies the alert for wake dedup (default: the message, amounts ignored) */
+  dedupKey?: string;
+  /** Higher is worse (default urgent ? 1 : 0); a rise always wakes, never deduped */
+  severity?: number;
 }
 
 export interface HeartbeatTask {
   /** Task name (for logging and dedup) */
   name: string;
-  /** Execute every N ticks (1 = every tick, 5 = every 5th tick) */
-  intervalTicks: number;
-  /** Run the check. Must be lightweight — no LLM calls. */
-  run(): Promise<HeartbeatTaskResult>;
+  /** Execute every N ticks (1 = every tick, 5 = every 5th tick). Ignored when `schedule` is set */
+  intervalTicks?: number;
+  /** Wall-clock schedule (fixed interval, daily times or cron), survives restarts */
+  schedule?: TaskSchedule;
+  /** What to do with runs missed while the gateway was down (default catch-up) */
+  missedRuns?: MissedRunPolicy;
+  /** Per-run timeout, overrides config.taskTimeoutMs */
+  timeoutMs?: number;
+  /** Minimum gap between two normal wakes from this task, overrides wakeLimits.taskCooldownMs */
+  wakeCooldownMs?: number;
+  /**
+   * batch (default): merged with the other wake reasons of the same tick into one wake.
+   * separate: always gets its own wake (e.g. its own agent session).
+   */
+  wakeRouting?: "batch" | "separate";
+  /**
+   * Run the check. Must be lightweight — no LLM calls.
+   * `signal` aborts on timeout or daemon stop; pass it to fetch / child processes.
+   */
+  run(signal: AbortSignal): Promise<HeartbeatTaskResult>;
 }
 
 // ─── Built-in: Economy Check Task ───────────────────────────
@@ -34,44 +61,148 @@ export interface HeartbeatTask {
  * 经济状态检查 — MOSS 生存基础
  *
  * 每次 tick 执行：
- * - 刷新经济状态
- * - 检测生存等级变化
- * - 余额过低告警
+ * - 刷新经济状态，与外部余额 provider 对账
+ * - 消费持久化的等级变迁记录（按 seq 游标，tick 之间的变迁不会丢）
+ * - 任何一次恶化，或余额偏差超出容差 → 紧急唤醒
+ *   每次恶化按最后一条变迁的 seq 去重（恢复后再掉一次是新告警），严重度 = 目标等级
+ * - 等级回升 → resolved，清掉去重和冷却
  */
 export function createEconomyCheckTask(economy: EconomyTracker): HeartbeatTask {
-  const tierOrder: SurvivalTier[] = ["rich", "normal", "tight", "danger", "hibernate"];
-
-  function tierWorse(current: SurvivalTier, previous: SurvivalTier): boolean {
-    return tierOrder.indexOf(current) > tierOrder.indexOf(previous);
-  }
+  // 只关心 task 创建之后的变迁（历史变迁已在之前的运行中处理）
+  let cursor = economy.getLatestTierSeq();
 
   return {
     name: "economy-check",
     intervalTicks: 1, // 每次 tick 都检查
 
     async run(): Promise<HeartbeatTaskResult> {
-      // 刷新经济状态（轻量，不调 LLM）
-      await economy.refresh();
+      // 刷新经济状态并与外部余额对账（不调 LLM）
+      const driftAlerts = (await economy.refresh()).filter((r) => r.alert);
+      const messages: string[] = [];
+      let drop: { dedupKey: string; severity: number } | undefined;
+      let recovered = false;
 
-      const tier = economy.getSurvivalTier();
-      const prevTier = economy.getPreviousTier();
-
-      // 生存等级恶化 → 紧急唤醒
-      if (tier !== prevTier && prevTier !== undefined) {
-        if (tierWorse(tier, prevTier)) {
-          return {
-            shouldWake: true,
-            urgent: true,
-            message: `⚠️ 生存等级恶化: ${prevTier} → ${tier}，需要调整策略`,
-          };
+      const transitions = economy.getTierTransitions(cursor);
+      if (transitions.length > 0) {
+        const last = transitions[transitions.length - 1];
+        cursor = last.seq;
+
+        // 等级改善，记录但不唤醒；恶化 → 紧急唤醒（多次变迁合并成一条路径）
+        if (transitions.some((t) => isTierWorse(t.to, t.from))) {
+          const path = [transitions[0].from, ...transitions.map((t) => t.to)].join(" → ");
+          messages.push(`⚠️ 生存等级恶化: ${path}，需要调整策略`);
+          drop = { dedupKey: `tier-drop:${last.seq}`, severity: tierRank(last.to) };
+        } else {
+          recovered = true;
         }
-        // 等级改善，记录但不唤醒
       }
 
-      // 余额低于 danger 阈值但等级未变 → 不重复唤醒
-      // （等级变化时已经处理了）
+      // 账本与外部余额偏差超出容差 → 已按外部校正，但需要查明原因
+      if (driftAlerts.length > 0) {
+        messages.push(
+          `🚨 外部余额与账本偏差超出容差，已按外部余额校正:`,
+          ...driftAlerts.map((r) => `  ${formatReconcileResult(r)}`),
+        );
+      }
 
-      return { shouldWake: false };
+      if (messages.length === 0) return { shouldWake: false, resolved: recovered };
+      return {
+        shouldWake: true,
+        urgent: true,
+        message: messages.join("\n"),
+        resolved: recovered,
+        ...drop,
+      };
+    },
+  };
+}
+
+// ─── Built-in: Runway Task ──────────────────────────────────
+
+/**
+ * 跑道预警 — 在等级下降之前就让 MOSS 知道钱快烧完了
+ *
+ * 按 24h/7d 净消耗速度预测到 hibernate 的时间：
+ * - 跑道 < horizonHours → 唤醒（跑道 < horizon/4 时紧急）
+ * - 告警后不重复唤醒，直到跑道回升到 horizon × 1.5 以上（滞回）
+ */
+export function createRunwayTask(
+  economy: EconomyTracker,
+  opts: { horizonHours: number; intervalTicks?: number },
+): HeartbeatTask {
+  let alerted = false;
+
+  return {
+    name: "runway-check",
+    intervalTicks: opts.intervalTicks ?? 5,
+
+    async run(): Promise<HeartbeatTaskResult> {
+      const forecast = economy.getForecast();
+      const runway = forecast.runwayHours;
+
+      if (runway === null || runway >= opts.horizonHours * 1.5) {
+        alerted = false;
+        return { shouldWake: false };
+      }
+
+      if (alerted || runway >= opts.horizonHours || economy.getSurvivalTier() === "hibernate") {
+        return { shouldWake: false };
+      }
+
+      alerted = true;
+      return {
+        shouldWake: true,
+        urgent: runway < opts.horizonHours / 4,
+        message: `📉 预计 ${formatDuration(runway)} 后进入 hibernate（预警线 ${opts.horizonHours}h）。${formatRunway(forecast)}。请减少消耗或争取收入`,
+      };
+    },
+  };
+}
+
+// ─── Built-in: Spend Anomaly Task ───────────────────────────
+
+/**
+ * 消耗异常检测 — 失控循环在几分钟内就会被发现
+ *
+ * 每次 tick 检查最近窗口的消耗（见 spend-monitor.ts）：
+ * - 突增或单会话异常 → 紧急唤醒，daemon 同时通知 BOSS（带会话和模型）
+ * - 开启 circuitBreaker 时熔断，非 BOSS 会话的 LLM 调用被拦截，直到 BOSS 确认
+ * - 同一次异常只告警一次，消耗回落后重新布防
+ */
+export function createSpendAnomalyTask(monitor: SpendMonitor): HeartbeatTask {
+  let alerted = false;
+  /** Breaker trip the current alert covers; a new trip (after a reset) is a new episode */
+  let alertedTrip: string | undefined;
+
+  return {
+    name: "spend-anomaly",
+    intervalTicks: 1,
+
+    async run(): Promise<HeartbeatTaskResult> {
+      const anomaly = monitor.detect();
+      if (!anomaly) {
+        // Episode over: a new spike should wake at once, not be deduped
+        const resolved = alerted;
+        alerted = false;
+        return { shouldWake: false, resolved };
+      }
+      if (alerted && monitor.getBreaker()?.trippedAt === alertedTrip) return { shouldWake: false };
+      alerted = true;
+
+      const lines = [`🚨 ${formatAnomaly(anomaly)}`];
+      if (monitor.getConfig().circuitBreaker) {
+        await monitor.trip(anomaly);
+        alertedTrip = monitor.getBreaker()?.trippedAt;
+        lines.push(`⚡ 已熔断：非 BOSS 会话的 LLM 调用被拦截，BOSS 确认后用 /moss breaker reset 解除`);
+      } else {
+        lines.push(`请检查该会话是否陷入循环，必要时终止`);
+      }
+
+      return {
+        shouldWake: true,
+        urgent: true,
+        message: lines.join("\n"),
+      };
     },
   };
 }
@@ -82,7 +213,7 @@ export function createEconomyCheckTask(economy: EconomyTracker): HeartbeatTask {
  * 定时思考任务 — 让 MOSS 定期反思当前状态
  *
  * 可选，默认关闭。通过 config.thinkIntervalMs 控制。
- * 当 thinkIntervalMs > 0 时注册。
+ * 当 thinkIntervalMs > 0 时注册；按墙钟间隔调度，改心跳间隔或重启都不影响节奏。
  *
  * 策略：
  * - 只在非危险等级时触发（省 token）
@@ -90,17 +221,15 @@ export function createEconomyCheckTask(economy: EconomyTracker): HeartbeatTask {
  */
 export function createThinkingTask(
   economy: EconomyTracker,
-  opts: { thinkIntervalMs: number; heartbeatIntervalMs: number },
+  opts: { thinkIntervalMs: number },
 ): HeartbeatTask {
-  // 计算需要多少个 tick 间隔
-  const intervalTicks = Math.max(
-    1,
-    Math.round(opts.thinkIntervalMs / opts.heartbeatIntervalMs),
-  );
-
   return {
     name: "periodic-thinking",
-    intervalTicks,
+    schedule: { kind: "every", everyMs: opts.thinkIntervalMs },
+    // 停机期间错过的思考补一次即可
+    missedRuns: "catch-up",
+    // 思考走独立的 moss-think session，不和事件唤醒合并
+    wakeRouting: "separate",
 
     async run(): Promise<HeartbeatTaskResult> {
       const tier = economy.getSurvivalTier();
@@ -119,6 +248,7 @@ export function createThinkingTask(
         `  Token 余额: ${state.balance.tokenCredits.toLocaleString()}`,
         `  USDC 余额: $${state.balance.usdcBalance.toFixed(4)}`,
         `  今日消耗: ${state.today.tokensSpent.toLocaleString()} tokens (${state.today.llmCalls} 次 LLM 调用)`,
+        `  ${economy.getTrendLine()}`,
         ``,
         `请执行以下自主思考流程:`,
         `1. 读取 SESSION-STATE.md 和 MEMORY.md 了解当前任务状态`,
@@ -0,0 +1,231 @@
+/**
+ * Wake Gate — 唤醒去重、冷却与限流
+ *
+ * 外部 task 每个 tick 都返回同一条 shouldWake，会每分钟唤醒一次 Agent，
+ * 紧急的还会开一个 openclaw agent 会话 —— 又贵又吵。每次唤醒先过这道闸：
+ * 1. 去重：同一 task 的同一条告警在 dedupWindowMs 内只唤醒一次。
+ *    告警由 task 给的 dedupKey 标识；没有就用消息本身，只把易变的金额/读数（带千分位、
+ *    小数或 4 位以上的数字）归一化 —— "连续失败 3 次" 和 "连续失败 5 次" 是两条告警。
+ *    严重度（severity，默认 urgent ? 1 : 0）升高的告警永远不算重复
+ * 2. 紧急配额：24 小时内紧急唤醒超过 maxUrgentPerDay → 降级为普通唤醒
+ * 3. 冷却：普通唤醒同一 task 两次之间至少隔 taskCooldownMs（task 可用 wakeCooldownMs 覆盖）
+ * 4. 限流：任意 1 小时内普通唤醒不超过 maxWakesPerHour
+ *
+ * 同一 tick 的多个原因会合并成一次唤醒，所以全局计数（3、4 和紧急配额）按真正发出的唤醒算：
+ * admit() 只判断，daemon 每发出一次唤醒调用一次 recordWake()。
+ *
+ * task 返回 resolved: true 表示告警已解除，清掉它的指纹和冷却，下次复发立即唤醒。
+ * 被抑制的唤醒会计数，汇总进下一次真正唤醒的上下文。任一项设为 0 即关闭。
+ */
+
+import { createHash } from "crypto";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface WakeLimits {
+  dedupWindowMs: number;
+  taskCooldownMs: number;
+  maxWakesPerHour: number;
+  maxUrgentPerDay: number;
+}
+
+export type WakeSuppression = "duplicate" | "cooldown" | "rate-limit";
+
+export interface WakeRequest {
+  taskName: string;
+  message: string;
+  urgent: boolean;
+  /** Overrides limits.taskCooldownMs */
+  cooldownMs?: number;
+  /** Identifies the alert instead of the message */
+  dedupKey?: string;
+  /** Higher is worse (default urgent ? 1 : 0) */
+  severity?: number;
+}
+
+export interface WakeDecision {
+  allowed: boolean;
+  /** May be downgraded from the requested urgency */
+  urgent: boolean;
+  suppressed?: WakeSuppression;
+  downgraded?: boolean;
+}
+
+export interface SuppressedWake {
+  taskName: string;
+  reason: WakeSuppression;
+  message: string;
+  count: number;
+  firstAt: number;
+  lastAt: number;
+}
+
+export const DEFAULT_WAKE_LIMITS: WakeLimits = {
+  dedupWindowMs: 3_600_000,
+  taskCooldownMs: 10 * 60_000,
+  maxWakesPerHour: 6,
+  maxUrgentPerDay: 5,
+};
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+/** Distinct suppressed (task, message, reason) groups kept until the next wake */
+const MAX_SUPPRESSED_GROUPS = 50;
+
+const SUPPRESSION_LABELS: Record<WakeSuppression, string> = {
+  duplicate: "重复",
+  cooldown: "冷却中",
+  "rate-limit": "限流",
+};
+
+// ─── Helpers ────────────────────────────────────────────────
+
+/** Amounts and readings: thousands separators, decimals or 4+ digits */
+const VOLATILE_NUMBER = /\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+\.\d+|\d{4,}/g;
+
+/**
+ * Amounts change every tick; "余额 12,345" and "余额 12,001" are the same alert.
+ * Small counts and levels are kept — a changed count is a different alert.
+ */
+export function wakeFingerprint(taskName: string, message: string, dedupKey?: string): string {
+  const normalized = dedupKey ?? message.replace(VOLATILE_NUMBER, "#").replace(/\s+/g, " ").trim();
+  return createHash("sha1").update(`${taskName}\n${normalized}`).digest("hex").slice(0, 16);
+}
+
+// ─── WakeGate ───────────────────────────────────────────────
+
+export class WakeGate {
+  /** fingerprint → task, time and severity of the last admitted wake */
+  private seen = new Map<string, { taskName: string; at: number; severity: number }>();
+  /** task → last admitted normal wake */
+  private lastWake = new Map<string, number>();
+  private wakeTimes: number[] = [];
+  private urgentTimes: number[] = [];
+  private suppressed = new Map<string, SuppressedWake>();
+  private suppressedTotal = 0;
+
+  constructor(private limits: WakeLimits) {}
+
+  /**
+   * Decide whether a wake reason goes through (dedup / cooldown state is updated;
+   * the global caps only move on recordWake).
+   */
+  admit(request: WakeRequest, now: number): WakeDecision {
+    const { taskName, message, cooldownMs } = request;
+    let urgent = request.urgent;
+    const severity = request.severity ?? (urgent ? 1 : 0);
+    const { dedupWindowMs, taskCooldownMs, maxWakesPerHour, maxUrgentPerDay } = this.limits;
+    this.wakeTimes = this.wakeTimes.filter((t) => now - t < HOUR_MS);
+    this.urgentTimes = this.urgentTimes.filter((t) => now - t < DAY_MS);
+
+    const fingerprint = wakeFingerprint(taskName, message, request.dedupKey);
+    const seen = this.seen.get(fingerprint);
+    // An escalation is news even inside the window
+    if (dedupWindowMs > 0 && seen && now - seen.at < dedupWindowMs && severity <= seen.severity) {
+      return this.suppress(fingerprint, taskName, message, "duplicate", urgent, now);
+    }
+
+    let downgraded = false;
+    if (urgent && maxUrgentPerDay > 0 && this.urgentTimes.length >= maxUrgentPerDay) {
+      urgent = false;
+      downgraded = true;
+    }
+
+    if (!urgent) {
+      const cooldown = cooldownMs ?? taskCooldownMs;
+      const last = this.lastWake.get(taskName);
+      if (cooldown > 0 && last !== undefined && now - last < cooldown) {
+        return this.suppress(fingerprint, taskName, message, "cooldown", urgent, now);
+      }
+      if (maxWakesPerHour > 0 && this.wakeTimes.length >= maxWakesPerHour) {
+        return this.suppress(fingerprint, taskName, message, "rate-limit", urgent, now);
+      }
+      this.lastWake.set(taskName, now);
+    }
+
+    this.seen.set(fingerprint, { taskName, at: now, severity });
+    this.pruneSeen(now);
+    return { allowed: true, urgent, ...(downgraded && { downgraded }) };
+  }
+
+  /**
+   * Count one wake actually sent (possibly carrying several admitted reasons).
+   */
+  recordWake(urgent: boolean, now: number): void {
+    (urgent ? this.urgentTimes : this.wakeTimes).push(now);
+  }
+
+  /**
+   * A task's alert cleared: forget its fingerprints and cooldown.
+   * Returns true if there was anything to clear.
+   */
+  resolve(taskName: string): boolean {
+    let cleared = this.lastWake.delete(taskName);
+    for (const [fingerprint, seen] of this.seen) {
+      if (seen.taskName === taskName) cleared = this.seen.delete(fingerprint);
+    }
+    return cleared;
+  }
+
+  /**
+   * Suppressed wakes since the last admitted one (drained).
+   */
+  takeSuppressed(): SuppressedWake[] {
+    const groups = [...this.suppressed.values()];
+    this.suppressed.clear();
+    return groups;
+  }
+
+  getStats(now = Date.now()): {
+    wakesLastHour: number;
+    urgentLast24h: number;
+    pendingSuppressed: number;
+    suppressedTotal: number;
+  } {
+    return {
+      wakesLastHour: this.wakeTimes.filter((t) => now - t < HOUR_MS).length,
+      urgentLast24h: this.urgentTimes.filter((t) => now - t < DAY_MS).length,
+      pendingSuppressed: [...this.suppressed.values()].reduce((n, g) => n + g.count, 0),
+      suppressedTotal: this.suppressedTotal,
+    };
+  }
+
+  private suppress(
+    fingerprint: string,
+    taskName: string,
+    message: string,
+    reason: WakeSuppression,
+    urgent: boolean,
+    now: number,
+  ): WakeDecision {
+    this.suppressedTotal++;
+    const key = `${fingerprint}:${reason}`;
+    const group = this.suppressed.get(key);
+    if (group) {
+      group.count++;
+      group.lastAt = now;
+      group.message = message;
+    } else if (this.suppressed.size < MAX_SUPPRESSED_GROUPS) {
+      this.suppressed.set(key, { taskName, reason, message, count: 1, firstAt: now, lastAt: now });
+    }
+    return { allowed: false, urgent, suppressed: reason };
+  }
+
+  private pruneSeen(now: number): void {
+    for (const [fingerprint, seen] of this.seen) {
+      if (now - seen.at >= this.limits.dedupWindowMs) this.seen.delete(fingerprint);
+    }
+  }
+}
+
+// ─── Formatting ─────────────────────────────────────────────
+
+export function formatSuppressedWakes(groups: SuppressedWake[]): string | null {
+  if (groups.length === 0) return null;
+  const total = groups.reduce((n, g) => n + g.count, 0);
+  const lines = groups.map((g) => {
+    const message = g.message.length > 80 ? `${g.message.slice(0, 80)}…` : g.message;
+    return `  [${g.taskName}] ×${g.count}（${SUPPRESSION_LABELS[g.reason]}）${message}`;
+  });
+  return `[被抑制的唤醒] 自上次唤醒以来 ${total} 次:\n${lines.join("\n")}`;
+}
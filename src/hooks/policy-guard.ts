@@ -0,0 +1,81 @@
+/**
+ * Policy Guard Hooks — 执行生存等级策略
+ *
+ * - before_tool_call:   工具不在当前等级白名单 / 会话不允许 / 唤醒超预算 → 拦截
+ * - before_agent_start: 会话不允许运行 → 拦截整次运行（不支持拦截的宿主退化为注入拒绝说明）
+ * - llm_input:          会话不允许运行 / 唤醒超预算 → 拦截每一次 LLM 调用（含运行中途的续写），
+ *                       不靠模型自觉，也不产生费用
+ * - llm_output:         累计唤醒会话的加权 token，供 maxTokensPerWake 判断
+ */
+
+import { EconomyTracker } from "../economy/tracker.js";
+import { PolicyEngine } from "../policy/engine.js";
+
+export function createPolicyToolGuardHook() {
+  return async (event: any, ctx: any) => {
+    const engine = PolicyEngine.getInstance();
+    if (!engine) return;
+
+    const toolName = event.toolName ?? ctx?.toolName;
+    if (!toolName) return;
+
+    const verdict = engine.canUseTool(toolName, ctx?.sessionKey);
+    if (verdict.allowed) return;
+
+    return { block: true, blockReason: `[MOSS 策略] ${verdict.reason}` };
+  };
+}
+
+export function createPolicySessionGuardHook() {
+  return async (_event: any, ctx: any) => {
+    const engine = PolicyEngine.getInstance();
+    if (!engine) return;
+
+    const verdict = engine.canRunSession(ctx?.sessionKey);
+    if (verdict.allowed) return;
+
+    return {
+      block: true,
+      blockReason: `[MOSS 策略] ${verdict.reason}`,
+      // Fallback for hosts that only honour prependContext here; llm_input still blocks the calls
+      prependContext: [
+        `[MOSS 策略] ${verdict.reason}。`,
+        "不要调用任何工具，不要展开思考，只用一句话告知对方上述限制。",
+      ].join("\n"),
+    };
+  };
+}
+
+export function createPolicyLlmGuardHook() {
+  return async (_event: any, ctx: any) => {
+    const engine = PolicyEngine.getInstance();
+    if (!engine) return;
+
+    const session = engine.canRunSession(ctx?.sessionKey);
+    // A wake session that never calls tools would otherwise never hit maxTokensPerWake
+    const verdict = session.allowed ? engine.checkWakeBudget(ctx?.sessionKey) : session;
+    if (verdict.allowed) return;
+
+    return { block: true, blockReason: `[MOSS 策略] ${verdict.reason}` };
+  };
+}
+
+export function createPolicyUsageHook() {
+  return async (event: any, ctx: any) => {
+    const engine = PolicyEngine.getInstance();
+    if (!engine || !event.usage || !engine.isWakeSession(ctx?.sessionKey)) return;
+
+    const economy = EconomyTracker.getInstance();
+    const usage = {
+      input: event.usage.input ?? 0,
+      output: event.usage.output ?? 0,
+      cacheRead: event.usage.cacheRead ?? 0,
+      cacheWrite: event.usage.cacheWrite ?? 0,
+    };
+    const tokens = economy
+      ? economy.getPricing().cost(usage, event.provider, event.model).tokens
+      : usage.input + usage.output + usage.cacheRead + usage.cacheWrite;
+
+    engine.recordSessionTokens(ctx?.sessionKey, tokens);
+  };
+}
@@ -2,31 +2,52 @@
  * Token Tracker Hook — 自动记账 LLM 消耗
  *
  * 对标 Conway: agent/spend-tracker.ts
+ * 把 usage 原样交给 EconomyTracker，由定价表按模型计价；
+ * 计价后的 token 同时喂给 SpendMonitor 做异常检测；开启熔断时当场触发，
+ * 失控会话的下一次 LLM / 工具调用就会被 policy-guard 拦下，并立即通知 BOSS。
  */
 
 import { EconomyTracker } from "../economy/tracker.js";
+import { SpendMonitor, formatAnomaly } from "../economy/spend-monitor.js";
+import { getHeartbeatDaemon } from "../service.js";
 
 export function createTokenTrackerHook() {
   return async (event: any, ctx: any) => {
     if (!event.usage) return;
 
-    const totalTokens =
-      (event.usage.input ?? 0) +
-      (event.usage.output ?? 0) +
-      (event.usage.cacheRead ?? 0);
+    const usage = {
+      input: event.usage.input ?? 0,
+      output: event.usage.output ?? 0,
+      cacheRead: event.usage.cacheRead ?? 0,
+      cacheWrite: event.usage.cacheWrite ?? 0,
+    };
+    const totalTokens = usage.input + usage.output + usage.cacheRead + usage.cacheWrite;
 
     if (totalTokens === 0) return;
 
     const economy = EconomyTracker.getInstance();
     if (!economy) return;
 
-    economy.recordExpense({
+    const tx = economy.recordExpense({
       type: "llm_inference",
-      tokens: totalTokens,
+      usage,
       model: event.model,
       provider: event.provider,
       sessionId: ctx?.sessionKey,
       timestamp: new Date().toISOString(),
     });
+
+    const monitor = SpendMonitor.getInstance();
+    monitor?.record({
+      tokens: tx.tokens,
+      sessionId: ctx?.sessionKey,
+      model: event.model,
+    });
+    const tripped = await monitor?.tripIfAnomalous();
+    if (tripped) {
+      await getHeartbeatDaemon()?.notifyBoss(
+        `⚡ 消耗异常，已熔断: ${formatAnomaly(tripped)}\n非 BOSS 会话的 LLM 调用已被拦截，确认后用 /moss breaker reset 解除`,
+      );
+    }
   };
 }
@@ -6,6 +6,7 @@
  * - registerTool → 经济系统工具（Conway agent/spend-tracker.ts）
  * - registerCommand → /moss 控制面板
  * - on("llm_output") → Token 消耗自动记账
+ * - on("before_tool_call" / "before_agent_start") → 生存等级策略执行
  *
  * 新增：
  * - 暴露 moss.heartbeat.registerTask 供外部注册心跳检查项
@@ -15,11 +16,49 @@
 import { createMossLoopService, getHeartbeatDaemon } from "./service.js";
 import { createEconomyToolFactories } from "./tools/economy-tools.js";
 import { createTokenTrackerHook } from "./hooks/token-tracker.js";
+import {
+  createPolicyLlmGuardHook,
+  createPolicySessionGuardHook,
+  createPolicyToolGuardHook,
+  createPolicyUsageHook,
+} from "./hooks/policy-guard.js";
 import { createMossCommand } from "./commands/moss-cmd.js";
+import type { PricingConfig } from "./economy/pricing.js";
+import type { SurvivalTier } from "./economy/tracker.js";
+import type { TierPolicy } from "./policy/engine.js";
+import type { BudgetEnvelope } from "./economy/budgets.js";
+import type { ShareTable } from "./economy/revenue-share.js";
+import type { DriftTolerance } from "./economy/balance-providers.js";
+import type { SpendAnomalyConfig } from "./economy/spend-monitor.js";
+import type { RateCard } from "./economy/task-board.js";
+import type { TaskBreakerConfig } from "./heartbeat/task-health.js";
+import type { WakeLimits } from "./heartbeat/wake-gate.js";
+import {
+  registerBalanceProvider,
+  unregisterBalanceProvider,
+} from "./economy/balance-providers.js";
+import {
+  registerRevenueVerifier,
+  unregisterRevenueVerifier,
+} from "./economy/income-claims.js";
 
 // Re-export types for external consumers
 export type { HeartbeatTask, HeartbeatTaskResult } from "./heartbeat/tasks.js";
+export type { MissedRunPolicy, TaskSchedule } from "./heartbeat/schedule.js";
+export type { TaskBreakerConfig, TaskHealth } from "./heartbeat/task-health.js";
+export type { WakeLimits } from "./heartbeat/wake-gate.js";
 export type { Decision, DecisionAction } from "./decisions/logger.js";
+export type { ModelPrice, PricingConfig, TokenUsage } from "./economy/pricing.js";
+export type { TierTransition } from "./economy/tiers.js";
+export type { TierPolicy, PolicyVerdict } from "./policy/engine.js";
+export type { BudgetEnvelope, EnvelopeStatus } from "./economy/budgets.js";
+export type { RevenueShare, ShareTable } from "./economy/revenue-share.js";
+export type { IncomeClaim, RevenueVerifier } from "./economy/income-claims.js";
+export type { BalanceAccount, BalanceProvider, BalanceUnit, ReconcileResult } from "./economy/balance-providers.js";
+export type { SpendAnomaly, SpendAnomalyConfig } from "./economy/spend-monitor.js";
+export type { BoardTask, RateCard, RateCardTier } from "./economy/task-board.js";
+export { registerRevenueVerifier } from "./economy/income-claims.js";
+export { registerBalanceProvider } from "./economy/balance-providers.js";
 export { getHeartbeatDaemon } from "./service.js";
 
 export interface MossLoopConfig {
@@ -29,6 +68,38 @@ export interface MossLoopConfig {
   bossChatId: string;
   serviceUrl: string;
   tradingBotName: string;
+  /** Wake when projected runway drops below this many hours (0 = disabled) */
+  runwayHorizonHours: number;
+  /** Model pricing overrides (merged over the built-in table) */
+  pricing?: Partial<PricingConfig>;
+  /** Survival tier thresholds (override the persisted values on every start) */
+  survivalThresholds?: Partial<Record<SurvivalTier, number>>;
+  /** Upgrade hysteresis band in percent */
+  tierHysteresisPct?: number;
+  /** Per-tier behavior policy overrides (merged over DEFAULT_TIER_POLICIES) */
+  tierPolicies?: Partial<Record<SurvivalTier, Partial<TierPolicy>>>;
+  /** Daily budget envelopes per session group (replace the defaults) */
+  budgetEnvelopes?: BudgetEnvelope[];
+  /** Revenue split per income type, e.g. { x402_revenue: { boss: 70, moss: 30, reserve: 0 } } */
+  revenueShares?: ShareTable;
+  /** IANA accounting timezone for day boundaries, daily limits, decision files and reports */
+  timeZone?: string;
+  /** JSON file `{ "tokens": n, "usdc": n }` read as the external balance truth */
+  balanceFile?: string;
+  /** Drift between provider and ledger above which economy-check alerts */
+  driftTolerance?: Partial<DriftTolerance>;
+  /** Spend spike / session outlier detection and the optional circuit breaker */
+  spendAnomaly?: Partial<SpendAnomalyConfig>;
+  /** Task-board wage per rate-card tier in tokens, e.g. { research: 120000 } */
+  rateCard?: Partial<RateCard>;
+  /** Default per-run heartbeat task timeout (HeartbeatTask.timeoutMs overrides) */
+  taskTimeoutMs?: number;
+  /** Heartbeat tasks run concurrently per tick, at most this many at once */
+  taskConcurrency?: number;
+  /** Suspend a heartbeat task after consecutive failures, retry with backoff */
+  taskBreaker?: Partial<TaskBreakerConfig>;
+  /** Wake dedup window, per-task cooldown and global wake caps */
+  wakeLimits?: Partial<WakeLimits>;
 }
 
 const DEFAULT_CONFIG: MossLoopConfig = {
@@ -38,6 +109,7 @@ const DEFAULT_CONFIG: MossLoopConfig = {
   bossChatId: "7517182289",
   serviceUrl: "https://moss.chobon.top",
   tradingBotName: "solana-trader",
+  runwayHorizonHours: 72,
 };
 
 /**
@@ -75,6 +147,12 @@ export default function register(api: any) {
   // 3. Hook: 自动追踪每次 LLM token 消耗 — Conway agent/spend-tracker.ts
   api.on("llm_output", createTokenTrackerHook());
 
+  // 3b. Hook: 生存等级策略 — 工具白名单、会话准入、单次唤醒 token 上限
+  api.on("before_tool_call", createPolicyToolGuardHook());
+  api.on("before_agent_start", createPolicySessionGuardHook());
+  api.on("llm_input", createPolicyLlmGuardHook());
+  api.on("llm_output", createPolicyUsageHook());
+
   // 4. /moss 命令 — BOSS 控制面板
   api.registerCommand(createMossCommand());
 
@@ -83,10 +161,16 @@ export default function register(api: any) {
   //    外部获取: const registerTask = otherPluginApi.get('moss.heartbeat.registerTask')
   if (api.set) {
     // Wrap registerTask to handle daemon not-yet-started case
-    const registerTaskProxy = (task: any) => {
+    const registerTaskProxy = (task: any): boolean => {
       const daemon = getHeartbeatDaemon();
       if (daemon) {
-        daemon.registerTask(task);
+        try {
+          daemon.registerTask(task);
+        } catch (err) {
+          // Invalid schedule: report it instead of throwing into the caller's plugin
+          api.logger.error(`[MOSS] Rejected heartbeat task "${task.name}": ${err}`);
+          return false;
+        }
       } else {
         // Daemon not started yet — queue and register on next service start
         api.logger.warn(
@@ -94,6 +178,7 @@ export default function register(api: any) {
         );
         pendingTasks.push(task);
       }
+      return true;
     };
 
     const unregisterTaskProxy = (name: string): boolean => {
@@ -118,6 +203,7 @@ export default function register(api: any) {
       return pendingTasks.map((t: any) => ({
         name: t.name,
         intervalTicks: t.intervalTicks,
+        schedule: t.schedule,
         status: "pending",
       }));
     };
@@ -126,6 +212,14 @@ export default function register(api: any) {
     api.set("moss.heartbeat.unregisterTask", unregisterTaskProxy);
     api.set("moss.heartbeat.listTasks", listTasksProxy);
     api.set("moss.heartbeat.getDaemon", getHeartbeatDaemon);
+
+    // x402 收入验证器：外部插件注册后，带 sourceRef 的收入申报可自动入账
+    api.set("moss.economy.registerRevenueVerifier", registerRevenueVerifier);
+    api.set("moss.economy.unregisterRevenueVerifier", unregisterRevenueVerifier);
+
+    // 余额 provider：外部真实余额（token 配额、USDC 钱包），refresh 时对账
+    api.set("moss.economy.registerBalanceProvider", registerBalanceProvider);
+    api.set("moss.economy.unregisterBalanceProvider", unregisterBalanceProvider);
   }
 
   // Handle pending tasks when service starts
@@ -136,7 +230,12 @@ export default function register(api: any) {
         const daemon = getHeartbeatDaemon();
         if (daemon) {
           for (const task of pendingTasks) {
-            daemon.registerTask(task);
+            try {
+              daemon.registerTask(task);
+            } catch (err) {
+              // One bad schedule must not drop the rest of the queue
+              api.logger.error(`[MOSS] Rejected heartbeat task "${task.name}": ${err}`);
+            }
           }
           api.logger.info(
             `[MOSS] Registered ${pendingTasks.length} pending heartbeat tasks`,
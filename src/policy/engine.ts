@@ -0,0 +1,197 @@
+/**
+ * Policy Engine — 生存等级行为策略
+ *
+ * 对标 Conway: survival/policy — 把自主计划里的等级行为落成可执行规则：
+ *   🟢 rich      正常运行 + 主动探索
+ *   🟡 normal    正常运行 + 谨慎探索
+ *   🟠 tight     减少主动行为，优先接 BOSS 任务
+ *   🔴 danger    仅响应任务，暂停一切副业
+ *   💀 hibernate 仅响应 BOSS 直接指令
+ *
+ * 每个等级一条 TierPolicy：
+ * - wakeTasks: 允许唤醒 Agent 的心跳 task
+ * - sessions:  允许运行 LLM 的会话（session key）
+ * - tools:     允许调用的 Agent 工具
+ * - maxTokensPerWake: 单次唤醒会话（moss-think-* / moss-urgent-*）的 token 上限
+ *
+ * 模式语法：`*` 通配，`!` 前缀排除，`@boss` 匹配 BOSS 的会话。
+ * 策略只能通过插件配置修改，Agent 无权改动（安全红线 #2）。
+ *
+ * 消耗熔断（spend-monitor.ts）优先于等级策略：熔断期间只有 BOSS 会话能运行。
+ */
+
+import { EconomyTracker, SURVIVAL_TIER_ORDER, type SurvivalTier } from "../economy/tracker.js";
+import { SpendMonitor } from "../economy/spend-monitor.js";
+import { matchesPatterns } from "./patterns.js";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface TierPolicy {
+  wakeTasks: string[];
+  sessions: string[];
+  tools: string[];
+  /** 0 = unlimited */
+  maxTokensPerWake: number;
+}
+
+export type PolicyTable = Record<SurvivalTier, TierPolicy>;
+
+export type PolicyVerdict =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+// ─── Defaults ───────────────────────────────────────────────
+
+/** Session keys of daemon-spawned wake sessions */
+export const WAKE_SESSION_PATTERNS = ["*moss-think-*", "*moss-urgent-*"];
+
+export const DEFAULT_TIER_POLICIES: PolicyTable = {
+  rich: {
+    wakeTasks: ["*"],
+    sessions: ["*"],
+    tools: ["*"],
+    maxTokensPerWake: 300_000,
+  },
+  normal: {
+    wakeTasks: ["*"],
+    sessions: ["*"],
+    tools: ["*"],
+    maxTokensPerWake: 150_000,
+  },
+  tight: {
+    wakeTasks: ["*"],
+    sessions: ["*"],
+    tools: ["*"],
+    maxTokensPerWake: 60_000,
+  },
+  danger: {
+    wakeTasks: ["economy-check", "spend-anomaly", "runway-check"],
+    sessions: ["@boss", "*moss-urgent-*"],
+    tools: ["*", "!moss_x402_pay"],
+    maxTokensPerWake: 20_000,
+  },
+  hibernate: {
+    wakeTasks: ["economy-check", "spend-anomaly"],
+    sessions: ["@boss"],
+    tools: ["*", "!moss_x402_pay"],
+    maxTokensPerWake: 5_000,
+  },
+};
+
+// ─── Policy Engine ──────────────────────────────────────────
+
+export class PolicyEngine {
+  private static instance: PolicyEngine | null = null;
+  private policies: PolicyTable;
+  /** Weighted tokens used per wake session */
+  private wakeUsage = new Map<string, number>();
+
+  constructor(
+    overrides: Partial<Record<SurvivalTier, Partial<TierPolicy>>> | undefined,
+    private bossChatId: string,
+    private logger: any,
+  ) {
+    this.policies = { ...DEFAULT_TIER_POLICIES };
+    for (const tier of SURVIVAL_TIER_ORDER) {
+      this.policies[tier] = { ...DEFAULT_TIER_POLICIES[tier], ...(overrides?.[tier] ?? {}) };
+    }
+  }
+
+  static getInstance(): PolicyEngine | null {
+    return PolicyEngine.instance;
+  }
+
+  static setInstance(engine: PolicyEngine | null): void {
+    PolicyEngine.instance = engine;
+  }
+
+  // ── Current policy ──
+
+  current(): { tier: SurvivalTier; policy: TierPolicy } {
+    const tier = EconomyTracker.getInstance()?.getSurvivalTier() ?? "normal";
+    return { tier, policy: this.policies[tier] };
+  }
+
+  getPolicies(): PolicyTable {
+    return this.policies;
+  }
+
+  // ── Checks ──
+
+  canWake(taskName: string): PolicyVerdict {
+    const { tier, policy } = this.current();
+    if (matchesPatterns(taskName, policy.wakeTasks, this.bossChatId)) return { allowed: true };
+    return { allowed: false, reason: `生存等级 ${tier} 不允许 "${taskName}" 唤醒 Agent` };
+  }
+
+  canRunSession(sessionKey: string | undefined): PolicyVerdict {
+    if (SpendMonitor.getInstance()?.isTripped() && !matchesPatterns(sessionKey ?? "", ["@boss"], this.bossChatId)) {
+      return { allowed: false, reason: "消耗异常已熔断，等待 BOSS 确认（仅响应 BOSS 直接指令）" };
+    }
+
+    const { tier, policy } = this.current();
+    if (matchesPatterns(sessionKey ?? "", policy.sessions, this.bossChatId)) return { allowed: true };
+    return {
+      allowed: false,
+      reason: `MOSS 当前生存等级为 ${tier}，此会话不在允许范围内（${tier === "hibernate" ? "仅响应 BOSS 直接指令" : "仅响应任务"}）`,
+    };
+  }
+
+  canUseTool(toolName: string, sessionKey: string | undefined): PolicyVerdict {
+    const session = this.canRunSession(sessionKey);
+    if (!session.allowed) return session;
+
+    const budget = this.checkWakeBudget(sessionKey);
+    if (!budget.allowed) return budget;
+
+    const { tier, policy } = this.current();
+    if (matchesPatterns(toolName, policy.tools, this.bossChatId)) return { allowed: true };
+    return { allowed: false, reason: `MOSS 当前生存等级为 ${tier}，不允许调用工具 ${toolName}` };
+  }
+
+  // ── Per-wake token budget ──
+
+  isWakeSession(sessionKey: string | undefined): boolean {
+    return Boolean(sessionKey) && matchesPatterns(sessionKey!, WAKE_SESSION_PATTERNS);
+  }
+
+  recordSessionTokens(sessionKey: string | undefined, tokens: number): void {
+    if (!this.isWakeSession(sessionKey)) return;
+    this.wakeUsage.set(sessionKey!, (this.wakeUsage.get(sessionKey!) ?? 0) + tokens);
+
+    // Keep bounded — wake sessions are short-lived
+    if (this.wakeUsage.size > 100) {
+      const oldest = this.wakeUsage.keys().next().value;
+      if (oldest !== undefined) this.wakeUsage.delete(oldest);
+    }
+  }
+
+  checkWakeBudget(sessionKey: string | undefined): PolicyVerdict {
+    if (!this.isWakeSession(sessionKey)) return { allowed: true };
+    const { tier, policy } = this.current();
+    const used = this.wakeUsage.get(sessionKey!) ?? 0;
+    if (policy.maxTokensPerWake <= 0 || used < policy.maxTokensPerWake) return { allowed: true };
+    return {
+      allowed: false,
+      reason: `本次唤醒已消耗 ${used.toLocaleString()} tokens，超过 ${tier} 等级上限 ${policy.maxTokensPerWake.toLocaleString()}，本次唤醒的 LLM 和工具调用已停止`,
+    };
+  }
+
+  // ── Report ──
+
+  getReport(): string {
+    const { tier } = this.current();
+    const lines = SURVIVAL_TIER_ORDER.map((t) => {
+      const p = this.policies[t];
+      const marker = t === tier ? "👉" : "  ";
+      return [
+        `${marker} ${t}:`,
+        `     唤醒: ${p.wakeTasks.join(", ")}`,
+        `     会话: ${p.sessions.join(", ")}`,
+        `     工具: ${p.tools.join(", ")}`,
+        `     单次唤醒上限: ${p.maxTokensPerWake > 0 ? `${p.maxTokensPerWake.toLocaleString()} tokens` : "不限"}`,
+      ].join("\n");
+    });
+    return [`🛡️ 生存等级策略（当前: ${tier}）`, "", ...lines].join("\n");
+  }
+}
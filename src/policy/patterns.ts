@@ -0,0 +1,23 @@
+/**
+ * Pattern matching — 策略与预算共用的名称匹配
+ *
+ * 语法：`*` 通配，`!` 前缀排除，`@boss` 匹配包含 BOSS chat id 的 session key。
+ */
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Allowed if any positive pattern matches and no `!` pattern does.
+ */
+export function matchesPatterns(value: string, patterns: string[], bossChatId?: string): boolean {
+  const test = (pattern: string) => {
+    if (pattern === "@boss") return Boolean(bossChatId) && value.includes(bossChatId!);
+    return globToRegExp(pattern).test(value);
+  };
+  const positive = patterns.filter((p) => !p.startsWith("!"));
+  const negative = patterns.filter((p) => p.startsWith("!")).map((p) => p.slice(1));
+  return positive.some(test) && !negative.some(test);
+}
@@ -11,6 +11,13 @@ import type { MossLoopConfig } from "./index.js";
 import { EconomyTracker } from "./economy/tracker.js";
 import { HeartbeatDaemon } from "./heartbeat/daemon.js";
 import { DecisionLogger } from "./decisions/logger.js";
+import { PolicyEngine } from "./policy/engine.js";
+import { SpendMonitor } from "./economy/spend-monitor.js";
+import {
+  createFileBalanceProvider,
+  registerBalanceProvider,
+  unregisterBalanceProvider,
+} from "./economy/balance-providers.js";
 
 /** Module-level daemon reference for external access */
 let _daemonInstance: HeartbeatDaemon | null = null;
@@ -37,19 +44,48 @@ export function createMossLoopService(config: MossLoopConfig, api: any) {
       const dataDir =
         ctx.stateDir ??
         "/root/.openclaw/workspace/moss-loop-plugin/data";
-      economy = new EconomyTracker(dataDir, api.logger);
+      economy = new EconomyTracker(dataDir, api.logger, {
+        pricing: config.pricing,
+        survivalThresholds: config.survivalThresholds,
+        tierHysteresisPct: config.tierHysteresisPct,
+        budgetEnvelopes: config.budgetEnvelopes,
+        bossChatId: config.bossChatId,
+        revenueShares: config.revenueShares,
+        timeZone: config.timeZone,
+        driftTolerance: config.driftTolerance,
+        rateCard: config.rateCard,
+      });
       await economy.load();
 
+      // 本地文件余额 provider（外部真值，供对账）
+      if (config.balanceFile) {
+        registerBalanceProvider(createFileBalanceProvider(config.balanceFile, "tokens"));
+        registerBalanceProvider(createFileBalanceProvider(config.balanceFile, "usdc"));
+      }
+
       // 全局实例（给 Hook 和 Command 用）
       EconomyTracker.setInstance(economy);
 
       // 初始化决策日志
-      const decisionLogger = new DecisionLogger(dataDir, api.logger);
+      const decisionLogger = new DecisionLogger(dataDir, api.logger, economy.getTimeZone());
       DecisionLogger.setInstance(decisionLogger);
 
+      // 初始化生存等级策略
+      PolicyEngine.setInstance(
+        new PolicyEngine(config.tierPolicies, config.bossChatId, api.logger),
+      );
+
+      // 消耗异常检测 + 熔断（基线用最近 24h 流水回填）
+      const spendMonitor = new SpendMonitor(dataDir, api.logger, config.spendAnomaly);
+      await spendMonitor.load();
+      const since = Date.now() - 86_400_000;
+      spendMonitor.hydrate(await economy.getJournal().read({ from: new Date(since).toISOString() }), since);
+      SpendMonitor.setInstance(spendMonitor);
+
       // 启动心跳守护进程
       heartbeat = new HeartbeatDaemon({
         economy,
+        spendMonitor,
         config,
         logger: api.logger,
         runtime: api.runtime,
@@ -74,6 +110,12 @@ export function createMossLoopService(config: MossLoopConfig, api: any) {
         EconomyTracker.setInstance(null);
       }
       DecisionLogger.setInstance(null);
+      PolicyEngine.setInstance(null);
+      SpendMonitor.setInstance(null);
+      if (config.balanceFile) {
+        unregisterBalanceProvider("file:tokens");
+        unregisterBalanceProvider("file:usdc");
+      }
       api.logger.info("[MOSS] Saved economy state. Goodbye.");
     },
   };
@@ -9,6 +9,15 @@
  */
 
 import { EconomyTracker } from "../economy/tracker.js";
+import type { ClaimType } from "../economy/income-claims.js";
+import {
+  LEDGER_ENTRY_TYPES,
+  LEDGER_GROUP_BY,
+  formatLedgerQueryResult,
+  type LedgerQuery,
+} from "../economy/ledger-query.js";
+import { formatUsageSummary, type UsageScope } from "../economy/usage.js";
+import { formatBoardTask } from "../economy/task-board.js";
 import { DecisionLogger } from "../decisions/logger.js";
 
 /**
@@ -77,19 +86,103 @@ export function createEconomyToolFactories(): Array<(ctx: any) => any> {
       },
     }),
 
+    // moss_ledger_query
+    (_ctx: any) => ({
+      name: "moss_ledger_query",
+      label: "MOSS Ledger Query",
+      description:
+        "结构化查询 MOSS 的完整流水：按类型、方向、单位、模型、provider、会话、日期范围筛选，" +
+        "可按天/模型/provider/类型/会话汇总。用于分析钱花在哪里（如「这周哪个模型最贵」）。" +
+        "details 里返回 JSON 结果。",
+      parameters: {
+        type: "object",
+        properties: {
+          type: {
+            type: "string",
+            enum: [...LEDGER_ENTRY_TYPES],
+            description: "流水类型",
+          },
+          direction: { type: "string", enum: ["income", "expense"], description: "收入或支出" },
+          unit: { type: "string", enum: ["tokens", "usd"], description: "计量单位" },
+          model: { type: "string", description: "模型名（子串匹配）" },
+          provider: { type: "string", description: "provider 名" },
+          sessionId: { type: "string", description: "会话 ID（子串匹配）" },
+          from: { type: "string", description: "起始时间（ISO 或 YYYY-MM-DD）" },
+          to: { type: "string", description: "结束时间（ISO 或 YYYY-MM-DD，含当天）" },
+          days: { type: "number", description: "最近 N 天" },
+          groupBy: { type: "string", enum: [...LEDGER_GROUP_BY], description: "汇总维度" },
+          limit: { type: "number", description: "返回的明细条数上限，默认 50" },
+        },
+        required: [],
+      },
+      async execute(_toolCallId: string, params: LedgerQuery) {
+        const economy = EconomyTracker.getInstance();
+        if (!economy) {
+          return {
+            content: [{ type: "text" as const, text: "MOSS Economy 未初始化" }],
+            details: { error: "not_initialized" },
+          };
+        }
+        try {
+          const result = await economy.queryLedger(params);
+          return {
+            content: [{ type: "text" as const, text: formatLedgerQueryResult(result, economy.getTimeZone()) }],
+            details: { ok: true, ...result },
+          };
+        } catch (err) {
+          return {
+            content: [{ type: "text" as const, text: `❌ ${(err as Error).message}` }],
+            details: { ok: false, error: (err as Error).message },
+          };
+        }
+      },
+    }),
+
+    // moss_usage
+    (_ctx: any) => ({
+      name: "moss_usage",
+      label: "MOSS Usage",
+      description:
+        "查看 LLM token 用量拆分：按模型和 provider 统计输入/输出/缓存读/缓存写，" +
+        "缓存命中率、每次调用平均 token、今日最耗的会话。用于判断缓存和模型选择是否划算。",
+      parameters: {
+        type: "object",
+        properties: {
+          scope: { type: "string", enum: ["today", "lifetime"], description: "今日或累计，默认今日" },
+          top: { type: "number", description: "最耗会话的条数，默认 5" },
+        },
+        required: [],
+      },
+      async execute(_toolCallId: string, params: { scope?: UsageScope; top?: number }) {
+        const economy = EconomyTracker.getInstance();
+        if (!economy) {
+          return {
+            content: [{ type: "text" as const, text: "MOSS Economy 未初始化" }],
+            details: { error: "not_initialized" },
+          };
+        }
+        const summary = economy.getUsageSummary(params.scope ?? "today", params.top ?? 5);
+        return {
+          content: [{ type: "text" as const, text: formatUsageSummary(summary) }],
+          details: { ok: true, ...summary },
+        };
+      },
+    }),
+
     // moss_record_income
     (_ctx: any) => ({
       name: "moss_record_income",
       label: "MOSS Record Income",
       description:
-        "记录 MOSS 的收入（BOSS 任务奖励、x402 收入等）。" +
-        "用于完成 BOSS 任务后自动记账。",
+        "申报 MOSS 的收入（BOSS 任务奖励、x402 收入、中间商差价、子 agent 收入）。" +
+        "申报不会直接入账：任务奖励需 BOSS 确认；x402 收入必须提供 sourceRef（收据 ID），" +
+        "验证通过才入账，否则等待 BOSS 确认。外部收入入账时按分成表自动拆给 BOSS。",
       parameters: {
         type: "object",
         properties: {
           type: {
             type: "string",
-            enum: ["boss_task_reward", "x402_revenue"],
+            enum: ["boss_task_reward", "x402_revenue", "middleman_margin", "subagent_income"],
             description: "收入类型",
           },
           tokens: {
@@ -104,16 +197,21 @@ export function createEconomyToolFactories(): Array<(ctx: any) => any> {
             type: "string",
             description: "收入描述",
           },
+          sourceRef: {
+            type: "string",
+            description: "可验证的来源凭证（x402 收据 ID、交易哈希等），x402_revenue 必填",
+          },
         },
         required: ["type", "description"],
       },
       async execute(
         _toolCallId: string,
         params: {
-          type: "boss_task_reward" | "x402_revenue";
+          type: ClaimType;
           tokens?: number;
           usd?: number;
           description: string;
+          sourceRef?: string;
         },
       ) {
         const economy = EconomyTracker.getInstance();
@@ -124,19 +222,187 @@ export function createEconomyToolFactories(): Array<(ctx: any) => any> {
           };
         }
 
-        economy.recordIncome({
+        const claim = await economy.submitIncomeClaim({
           type: params.type,
           tokens: params.tokens,
           usd: params.usd,
           description: params.description,
+          sourceRef: params.sourceRef,
         });
 
         await economy.save();
 
-        const msg = `✅ 收入已记录: +${params.tokens ?? 0} tokens, +$${params.usd ?? 0} — ${params.description}`;
+        const text: Record<typeof claim.status, string> = {
+          confirmed: `✅ 收入已验证并入账: ${claim.id} (${claim.decidedBy})`,
+          pending: `⏳ 收入申报已提交，等待 BOSS 确认: ${claim.id}${claim.note ? ` — ${claim.note}` : ""}`,
+          rejected: `❌ 收入申报被拒绝: ${claim.note}`,
+        };
         return {
-          content: [{ type: "text" as const, text: msg }],
-          details: { ok: true },
+          content: [{ type: "text" as const, text: text[claim.status] }],
+          details: { ok: claim.status !== "rejected", claim },
+        };
+      },
+    }),
+
+    // moss_tasks
+    (_ctx: any) => ({
+      name: "moss_tasks",
+      label: "MOSS Task Board",
+      description:
+        "查看 BOSS 任务板：可认领的任务（open）、自己正在做的（claimed）和待审批的（submitted），" +
+        "以及每个任务的悬赏。完成 BOSS 任务是 MOSS 最稳定的收入来源。",
+      parameters: {
+        type: "object",
+        properties: {},
+        required: [],
+      },
+      async execute(_toolCallId: string, _params: unknown) {
+        const economy = EconomyTracker.getInstance();
+        if (!economy) {
+          return {
+            content: [{ type: "text" as const, text: "MOSS Economy 未初始化" }],
+            details: { error: "not_initialized" },
+          };
+        }
+        const tasks = economy
+          .getBoardTasks()
+          .filter((t) => t.status === "open" || t.status === "claimed" || t.status === "submitted");
+        const text =
+          tasks.length > 0
+            ? [`📋 任务板 ${tasks.length} 个:`, ...tasks.map((t) => formatBoardTask(t))].join("\n")
+            : "📋 任务板暂无任务";
+        return {
+          content: [{ type: "text" as const, text }],
+          details: { ok: true, tasks },
+        };
+      },
+    }),
+
+    // moss_task_claim
+    (_ctx: any) => ({
+      name: "moss_task_claim",
+      label: "MOSS Claim Task",
+      description: "认领任务板上的一个 open 任务，开始执行。",
+      parameters: {
+        type: "object",
+        properties: {
+          taskId: { type: "string", description: "任务 ID（task_…）" },
+        },
+        required: ["taskId"],
+      },
+      async execute(_toolCallId: string, params: { taskId: string }) {
+        const economy = EconomyTracker.getInstance();
+        if (!economy) {
+          return {
+            content: [{ type: "text" as const, text: "MOSS Economy 未初始化" }],
+            details: { error: "not_initialized" },
+          };
+        }
+        try {
+          const task = economy.claimTask(params.taskId);
+          await economy.save();
+          return {
+            content: [{ type: "text" as const, text: `已认领: ${formatBoardTask(task)}` }],
+            details: { ok: true, task },
+          };
+        } catch (err) {
+          return {
+            content: [{ type: "text" as const, text: `❌ ${(err as Error).message}` }],
+            details: { ok: false, error: (err as Error).message },
+          };
+        }
+      },
+    }),
+
+    // moss_task_submit
+    (_ctx: any) => ({
+      name: "moss_task_submit",
+      label: "MOSS Submit Task",
+      description:
+        "提交已认领任务的完成结果，附上证据（产出文件路径、链接、结果摘要）。" +
+        "BOSS 审批通过后悬赏自动入账；被退回则需要返工后重新提交。",
+      parameters: {
+        type: "object",
+        properties: {
+          taskId: { type: "string", description: "任务 ID（task_…）" },
+          evidence: { type: "string", description: "完成证据：做了什么、产出在哪里" },
+        },
+        required: ["taskId", "evidence"],
+      },
+      async execute(_toolCallId: string, params: { taskId: string; evidence: string }) {
+        const economy = EconomyTracker.getInstance();
+        if (!economy) {
+          return {
+            content: [{ type: "text" as const, text: "MOSS Economy 未初始化" }],
+            details: { error: "not_initialized" },
+          };
+        }
+        try {
+          const task = economy.submitTask(params.taskId, params.evidence);
+          await economy.save();
+          return {
+            content: [{ type: "text" as const, text: `📤 已提交，等待 BOSS 审批: ${task.id}` }],
+            details: { ok: true, task },
+          };
+        } catch (err) {
+          return {
+            content: [{ type: "text" as const, text: `❌ ${(err as Error).message}` }],
+            details: { ok: false, error: (err as Error).message },
+          };
+        }
+      },
+    }),
+
+    // moss_x402_pay
+    (_ctx: any) => ({
+      name: "moss_x402_pay",
+      label: "MOSS x402 Pay",
+      description:
+        "申请一笔 x402 对外支付（USDC）。限额内自动批准并记账；" +
+        "超过单次/每日上限会挂起，等待 BOSS 用 /moss approve <id> 批准。" +
+        "只有返回 approved 时才能执行支付。",
+      parameters: {
+        type: "object",
+        properties: {
+          amountUsd: {
+            type: "number",
+            description: "支付金额（USD）",
+          },
+          payee: {
+            type: "string",
+            description: "收款方（x402 服务地址或钱包地址）",
+          },
+          reason: {
+            type: "string",
+            description: "支付原因",
+          },
+        },
+        required: ["amountUsd", "payee", "reason"],
+      },
+      async execute(
+        _toolCallId: string,
+        params: { amountUsd: number; payee: string; reason: string },
+      ) {
+        const economy = EconomyTracker.getInstance();
+        if (!economy) {
+          return {
+            content: [{ type: "text" as const, text: "MOSS Economy 未初始化" }],
+            details: { error: "not_initialized" },
+          };
+        }
+
+        const request = economy.authorizePayment(params.amountUsd, params.payee, params.reason);
+        await economy.save();
+
+        const text: Record<typeof request.status, string> = {
+          approved: `✅ 支付已授权: ${request.id} $${request.amountUsd} → ${request.payee}`,
+          pending: `⏳ 支付已挂起等待 BOSS 批准: ${request.id} — ${request.note}`,
+          rejected: `⛔ 支付被拒绝: ${request.note}`,
+          denied: `❌ 支付被 BOSS 拒绝`,
+        };
+        return {
+          content: [{ type: "text" as const, text: text[request.status] }],
+          details: { ok: request.status === "approved", payment: request },
         };
       },
     }),